@@ -0,0 +1,133 @@
+// Source of the raw chain data the fetcher aggregates. HiveSQL is the real
+// one (hivesql-source.ts); fixture-source.ts runs the same aggregations over a
+// local Comments fixture so they can be developed without credentials.
+
+import type { Granularity, Segment } from "./tiers";
+
+// A [from, to) date range queried in one go. Windows always start and end on
+// a period boundary, so every period is fully contained in a single window.
+export interface FetchWindow {
+  granularity: Granularity;
+  from: Date;
+  to: Date;
+  label: string;
+}
+
+export interface PeriodStats {
+  period_start: Date;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  // Users per tier key for each segment, see tiers.ts
+  tiers: Record<Segment, Record<string, number>>;
+}
+
+// Growth accounting: every author active in a week is exactly one of new
+// (first activity ever), retained (also active the previous week) or
+// resurrected (active before, but not the previous week). Churned authors
+// were active the previous week but not this one.
+export interface WeeklyGrowth {
+  week_start: Date;
+  new_users: number;
+  retained_users: number;
+  resurrected_users: number;
+  churned_users: number;
+}
+
+// Curation activity per week. Social active users voted, posted or commented
+// at least once that week.
+export interface WeeklyVotes {
+  week_start: Date;
+  unique_voters: number;
+  total_votes: number;
+  social_active_users: number;
+}
+
+// Weekly activity within one Hive community (a hive-NNNNNN category). Comments
+// carry the category of their root post, so they count towards its community.
+export interface CommunityWeeklyStats {
+  community: string;
+  week_start: Date;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+}
+
+// Weekly activity per posting app, from json_metadata.app of posts and
+// comments. An author using several apps in a week counts towards each.
+export interface AppWeeklyStats {
+  app: string;
+  week_start: Date;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+}
+
+// json_metadata.app is usually "name/version". The version is dropped and
+// the lowercased name is mapped through these aliases so renamed or
+// differently spelled front-ends are counted together. Content without an
+// app is counted as "unknown".
+export const APP_ALIASES: Record<string, string> = {
+  "esteem": "ecency",
+  "esteem-surfer": "ecency",
+  "ecency.app": "ecency",
+  "hiveblog": "hive.blog",
+  "condenser": "hive.blog",
+  "peakd.com": "peakd",
+  "leothreads": "leofinance",
+  "inleo": "leofinance",
+  "3speak.tv": "3speak",
+  "steemmonsters": "splinterlands",
+};
+
+// One row of a weekly top-N list. Author boards rank by posts, comments or
+// both; the communities board ranks categories by posts + comments.
+export type LeaderboardName = "posts" | "comments" | "total" | "communities";
+
+export interface LeaderboardEntry {
+  week_start: Date;
+  board: LeaderboardName;
+  rank: number;
+  name: string;
+  posts: number;
+  comments: number;
+}
+
+// Entries kept per board and week
+export const LEADERBOARD_SIZE = 10;
+
+// Authors active in `active_month`, grouped by the month of their first
+// post or comment ever
+export interface CohortActivity {
+  cohort_month: Date;
+  active_month: Date;
+  active_users: number;
+}
+
+// One day of the internal HIVE/HBD market, from fill_order operations. The
+// price is volume-weighted: HBD paid per HIVE over all of the day's fills.
+// Before the Hive fork these were STEEM/SBD trades.
+export interface InternalMarketDay {
+  date: Date;
+  vwap: number;
+  hive_volume: number;
+  hbd_volume: number;
+  fills: number;
+}
+
+// Every method aggregates the chain data of one window. Windows start and end
+// on period boundaries; lookups into history before the window (first
+// activity, previous week) are the source's own business.
+export interface ChainDataSource {
+  name: string;
+  fetchPeriodStats(window: FetchWindow): Promise<PeriodStats[]>;
+  fetchWeeklyGrowth(window: FetchWindow): Promise<WeeklyGrowth[]>;
+  fetchWeeklyVotes(window: FetchWindow): Promise<WeeklyVotes[]>;
+  fetchLeaderboards(window: FetchWindow): Promise<LeaderboardEntry[]>;
+  fetchCommunityStats(window: FetchWindow): Promise<CommunityWeeklyStats[]>;
+  fetchAppStats(window: FetchWindow): Promise<AppWeeklyStats[]>;
+  fetchCohortActivity(window: FetchWindow): Promise<CohortActivity[]>;
+  // Always daily, whatever the window's granularity
+  fetchInternalMarket(window: FetchWindow): Promise<InternalMarketDay[]>;
+  close(): Promise<void>;
+}
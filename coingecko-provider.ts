@@ -0,0 +1,71 @@
+import { addDays, formatDay, parseDay } from "./periods";
+import { REQUEST_DELAY_MS, fetchJson, type DailyPrice, type PriceProvider } from "./price-provider";
+
+// Daily prices and USD volume from CoinGecko. CoinGecko has no daily OHLC for
+// long ranges, so open/high/low and coin volume stay empty. The public API
+// only serves the last 365 days; set COINGECKO_API_KEY (a demo key) to raise
+// its rate limit.
+
+interface MarketChartResponse {
+  // [timestamp in ms, value]
+  prices: Array<[number, number]>;
+  total_volumes: Array<[number, number]>;
+}
+
+// Days per request. Ranges over 90 days come back as daily points; shorter
+// ones are hourly, from which the last point of each day is kept.
+const PAGE_DAYS = 365;
+
+// A point is the price at its timestamp, so one at 00:00 UTC closes the
+// previous day
+function closingDay(ms: number): string {
+  return formatDay(new Date(ms - 1));
+}
+
+export function createCoinGeckoProvider(): PriceProvider {
+  const apiKey = process.env.COINGECKO_API_KEY;
+  const headers: Record<string, string> = apiKey ? { "x-cg-demo-api-key": apiKey } : {};
+  
+  return {
+    name: "coingecko",
+    
+    async fetchDailyHistory(coin, from, to) {
+      const closes = new Map<string, { ms: number; close: number }>();
+      const volumes = new Map<string, { ms: number; volume: number }>();
+      
+      for (let start = parseDay(from); start <= parseDay(to); start = addDays(start, PAGE_DAYS)) {
+        const stop = new Date(Math.min(addDays(start, PAGE_DAYS).getTime(), addDays(parseDay(to), 1).getTime()));
+        // Starts a second into the day so the point closing the day before is excluded
+        const url = `https://api.coingecko.com/api/v3/coins/${coin.coingeckoId}/market_chart/range`
+          + `?vs_currency=usd&from=${start.getTime() / 1000 + 1}&to=${stop.getTime() / 1000}`;
+        const data = await fetchJson<MarketChartResponse>("CoinGecko", url, { headers });
+        
+        for (const [ms, close] of data.prices) {
+          const day = closingDay(ms);
+          if (close > 0 && ms >= (closes.get(day)?.ms ?? 0)) closes.set(day, { ms, close });
+        }
+        for (const [ms, volume] of data.total_volumes) {
+          const day = closingDay(ms);
+          if (ms >= (volumes.get(day)?.ms ?? 0)) volumes.set(day, { ms, volume });
+        }
+        await Bun.sleep(REQUEST_DELAY_MS);
+      }
+      
+      const prices: DailyPrice[] = [];
+      for (const [date, { close }] of closes) {
+        if (date < from || date > to) continue;
+        prices.push({
+          date,
+          open: null,
+          high: null,
+          low: null,
+          close,
+          volume: null,
+          volumeUsd: volumes.get(date)?.volume ?? null,
+        });
+      }
+      return prices.sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
+
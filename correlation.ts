@@ -0,0 +1,123 @@
+// Price/activity correlation shared by the server, the static exporter and
+// the dashboard.
+//
+// Token prices and active users both trend over the years, so correlating
+// their levels mostly measures the shared trend. The insights correlate
+// period-over-period changes instead (log returns by default), linearly and by
+// rank, at several lags, per chain era and over a rolling window. Every
+// estimate carries a 95% confidence interval from the Fisher z-transform.
+
+export type CorrelationTransform = "levels" | "logReturns" | "changes";
+
+export const CORRELATION_TRANSFORMS: CorrelationTransform[] = ["logReturns", "changes", "levels"];
+
+export interface CorrelationEstimate {
+  r: number;
+  // Number of paired observations
+  n: number;
+  // 95% confidence interval; null with fewer than 4 pairs
+  low: number | null;
+  high: number | null;
+}
+
+// Correlation of x with y `lag` periods later: a positive lag means x leads y
+export interface LagCorrelation extends CorrelationEstimate {
+  lag: number;
+}
+
+type Series = Array<number | null>;
+
+export function calculateCorrelation(x: number[], y: number[]): number {
+  const n = x.length;
+  if (n === 0 || x.length !== y.length) return 0;
+  
+  const sumX = x.reduce((a, b) => a + b, 0);
+  const sumY = y.reduce((a, b) => a + b, 0);
+  const sumXY = x.reduce((a, xi, i) => a + xi * (y[i] ?? 0), 0);
+  const sumX2 = x.reduce((a, xi) => a + xi * xi, 0);
+  const sumY2 = y.reduce((a, yi) => a + yi * yi, 0);
+  
+  const numerator = n * sumXY - sumX * sumY;
+  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
+  
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+// 1-based ranks, tied values sharing their average rank
+function ranks(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rankOf = new Map<number, number>();
+  sorted.forEach((value, i) => {
+    if (!rankOf.has(value)) rankOf.set(value, (i + sorted.lastIndexOf(value)) / 2 + 1);
+  });
+  return values.map((value) => rankOf.get(value) ?? 0);
+}
+
+export function spearmanCorrelation(x: number[], y: number[]): number {
+  return calculateCorrelation(ranks(x), ranks(y));
+}
+
+export function confidenceInterval(r: number, n: number): { low: number | null; high: number | null } {
+  if (n < 4) return { low: null, high: null };
+  const z = Math.atanh(Math.max(-0.999999, Math.min(0.999999, r)));
+  const margin = 1.96 / Math.sqrt(n - 3);
+  return { low: Number(Math.tanh(z - margin).toFixed(3)), high: Number(Math.tanh(z + margin).toFixed(3)) };
+}
+
+// Whether the confidence interval excludes zero
+export function isSignificant(estimate: CorrelationEstimate): boolean {
+  return estimate.low !== null && estimate.high !== null && (estimate.low > 0 || estimate.high < 0);
+}
+
+// Pairs (x[i], y[i + lag]) where both are known
+function pairs(x: Series, y: Series, lag = 0): [number[], number[]] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = Math.max(0, -lag); i < x.length && i + lag < y.length; i++) {
+    const xi = x[i];
+    const yi = y[i + lag];
+    if (xi == null || yi == null) continue;
+    xs.push(xi);
+    ys.push(yi);
+  }
+  return [xs, ys];
+}
+
+export function estimateCorrelation(x: Series, y: Series, method: "pearson" | "spearman" = "pearson", lag = 0): CorrelationEstimate {
+  const [xs, ys] = pairs(x, y, lag);
+  const r = method === "spearman" ? spearmanCorrelation(xs, ys) : calculateCorrelation(xs, ys);
+  return { r: Number(r.toFixed(3)), n: xs.length, ...confidenceInterval(r, xs.length) };
+}
+
+// Period-over-period values of a series. A change needs both periods' values
+// (positive ones for log returns) and is unknown across a change of
+// `segments` key, e.g. from the last Steem week to the first Hive week, whose
+// prices are of different coins.
+export function transformSeries(values: Series, transform: CorrelationTransform, segments?: string[]): Series {
+  if (transform === "levels") return values;
+  return values.map((value, i) => {
+    const previous = i > 0 ? values[i - 1] : null;
+    if (value == null || previous == null || segments?.[i] !== segments?.[i - 1]) return null;
+    if (transform === "logReturns") return value > 0 && previous > 0 ? Math.log(value / previous) : null;
+    return previous !== 0 ? (value - previous) / previous : null;
+  });
+}
+
+export function crossCorrelation(x: Series, y: Series, maxLag: number): LagCorrelation[] {
+  const lags: LagCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    lags.push({ lag, ...estimateCorrelation(x, y, "pearson", lag) });
+  }
+  return lags;
+}
+
+// Pearson correlation over each run of `window` periods, labelled by the
+// run's last period; runs with fewer than 4 pairs are skipped
+export function rollingCorrelation(x: Series, y: Series, labels: string[], window: number): Array<CorrelationEstimate & { end: string }> {
+  const rolling: Array<CorrelationEstimate & { end: string }> = [];
+  for (let end = window; end <= labels.length; end++) {
+    const estimate = estimateCorrelation(x.slice(end - window, end), y.slice(end - window, end));
+    if (estimate.n >= 4) rolling.push({ end: labels[end - 1] ?? "", ...estimate });
+  }
+  return rolling;
+}
@@ -0,0 +1,82 @@
+import { DAY_MS, addDays, formatDay, parseDay } from "./periods";
+import { REQUEST_DELAY_MS, fetchJson, type DailyPrice, type PriceProvider } from "./price-provider";
+
+// Daily OHLC and volume from CryptoCompare (more generous free tier)
+
+interface CryptoCompareCandle {
+  time: number;
+  close: number;
+  open: number;
+  high: number;
+  low: number;
+  volumefrom: number;
+  volumeto: number;
+}
+
+interface CryptoCompareResponse {
+  Response: string;
+  Message?: string;
+  Data: {
+    Data: CryptoCompareCandle[];
+  };
+}
+
+// CryptoCompare returns at most 2000 days per request
+const PAGE_SIZE = 2000;
+
+async function fetchPage(symbol: string, toTs: number, limit: number): Promise<CryptoCompareCandle[]> {
+  const url = `https://min-api.cryptocompare.com/data/v2/histoday?fsym=${symbol}&tsym=USD&limit=${limit}&toTs=${toTs}`;
+  const data = await fetchJson<CryptoCompareResponse>("CryptoCompare", url, {
+    isRateLimited: (body) => /rate limit/i.test(body.Message ?? ""),
+  });
+  
+  if (data.Response !== "Success") {
+    throw new Error(`CryptoCompare error: ${JSON.stringify(data)}`);
+  }
+  return data.Data.Data;
+}
+
+export function createCryptoCompareProvider(): PriceProvider {
+  return {
+    name: "cryptocompare",
+    
+    // Pages backwards from `to`, stopping early at a page without any
+    // trading, i.e. before the coin was listed
+    async fetchDailyHistory(coin, from, to) {
+      const prices: DailyPrice[] = [];
+      let cursor = parseDay(to);
+      const start = parseDay(from);
+      
+      while (cursor >= start) {
+        const days = Math.round((cursor.getTime() - start.getTime()) / DAY_MS);
+        // `limit` counts the days before toTs, so a page holds limit + 1 days
+        const limit = Math.max(1, Math.min(PAGE_SIZE, days));
+        const candles = await fetchPage(coin.symbol, cursor.getTime() / 1000, limit);
+        
+        const traded = candles
+          .filter(d => d.close > 0) // Filter out days with no trading
+          .map(d => ({
+            date: formatDay(new Date(d.time * 1000)),
+            open: d.open,
+            high: d.high,
+            low: d.low,
+            close: d.close,
+            volume: d.volumefrom,
+            volumeUsd: d.volumeto,
+          }))
+          .filter(d => d.date >= from && d.date <= to);
+        prices.push(...traded);
+        
+        const earliest = candles[0];
+        if (traded.length === 0 || !earliest) {
+          console.log(`  No ${coin.symbol} trading data on CryptoCompare before ${formatDay(addDays(cursor, 1))}`);
+          break;
+        }
+        cursor = addDays(new Date(earliest.time * 1000), -1);
+        await Bun.sleep(REQUEST_DELAY_MS);
+      }
+      
+      return prices.sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
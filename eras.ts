@@ -0,0 +1,60 @@
+// Chain-era timeline shared by the fetchers, the server, the static exporter
+// and the dashboard.
+//
+// Hive forked from Steem, so the chain's history is Steem's until the fork
+// and Hive's after it. Every date belongs to exactly one era: eras are listed
+// in order and each lasts until the day before the next one starts. Prices
+// are joined per day from the era's coins in price_history, so a week or year
+// spanning the fork averages STEEM before it and HIVE after it.
+
+export interface ChainEra {
+  key: string;
+  name: string;
+  // First day of the era (YYYY-MM-DD, UTC)
+  from: string;
+  // price_history coins: exchange price and internal market VWAP
+  coin: string;
+  internalCoin: string;
+}
+
+// Steem's genesis block
+const STEEM_ERA: ChainEra = { key: "steem", name: "Steem", from: "2016-03-24", coin: "steem", internalCoin: "steem_internal" };
+// Hive's genesis: the fork from Steem on March 20, 2020
+const HIVE_ERA: ChainEra = { key: "hive", name: "Hive", from: "2020-03-20", coin: "hive", internalCoin: "hive_internal" };
+
+export const CHAIN_ERAS: ChainEra[] = [STEEM_ERA, HIVE_ERA];
+
+CHAIN_ERAS.forEach((era, i) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(era.from)) {
+    throw new Error(`Invalid start "${era.from}" for era ${era.key} (expected YYYY-MM-DD)`);
+  }
+  const previous = CHAIN_ERAS[i - 1];
+  if (previous && previous.from >= era.from) {
+    throw new Error(`Era ${era.key} must start after era ${previous.key}`);
+  }
+});
+
+// The day Hive forked off Steem, marked on the dashboard charts
+export const FORK_DATE = HIVE_ERA.from;
+
+// Era containing a day; days before the first era count towards it
+export function eraOn(date: string): ChainEra {
+  return CHAIN_ERAS.findLast((era) => era.from <= date) ?? STEEM_ERA;
+}
+
+// Last day of an era (inclusive), or undefined for the current one
+export function eraEnd(era: ChainEra): string | undefined {
+  const next = CHAIN_ERAS[CHAIN_ERAS.indexOf(era) + 1];
+  if (!next) return undefined;
+  const day = new Date(`${next.from}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// SQLite expression for the price_history coin of the era containing
+// `dateColumn` (a YYYY-MM-DD text column)
+export function eraCoinSql(dateColumn: string, series: "coin" | "internalCoin" = "coin"): string {
+  const cases = CHAIN_ERAS.slice(1).reverse()
+    .map((era) => `WHEN ${dateColumn} >= '${era.from}' THEN '${era[series]}'`);
+  return `CASE ${cases.join(" ")} ELSE '${STEEM_ERA[series]}' END`;
+}
@@ -1,211 +1,15 @@
-import { Database } from "bun:sqlite";
+import { COMMUNITY_LIST_SIZE, getCohorts, getCommunities, getCommunityStats, getLeaderboards, getStats } from "./stats";
+import { EXPORT_FORMATS, EXPORT_TABLES, encodeExport, type ExportFormat, type ExportTableName } from "./exports";
+import { openDatabase } from "./migrations";
 
 // Export data from SQLite to JSON for static deployment
 
-const db = new Database("hive-stats.db", { readonly: true });
-
-interface WeeklyStatsRow {
-  year: number;
-  week: number;
-  week_start: string;
-  total_users: number;
-  total_posts: number;
-  total_comments: number;
-  ultra_active_users: number;
-  very_active_users: number;
-  active_users: number;
-  occasional_users: number;
-  low_activity_users: number;
-  avg_price: number | null;
-}
-
-function getWeeklyStats(): WeeklyStatsRow[] {
-  return db.prepare(`
-    SELECT 
-      ws.*,
-      AVG(ph.price_usd) as avg_price
-    FROM weekly_stats ws
-    LEFT JOIN price_history ph ON 
-      ph.date >= ws.week_start 
-      AND ph.date < date(ws.week_start, '+7 days')
-      AND (
-        (ws.year < 2020 AND ph.coin = 'steem') OR
-        (ws.year >= 2020 AND ph.coin = 'hive')
-      )
-    GROUP BY ws.year, ws.week
-    ORDER BY ws.year, ws.week
-  `).all() as WeeklyStatsRow[];
-}
-
-function calculateCorrelation(x: number[], y: number[]): number {
-  const n = x.length;
-  if (n === 0 || x.length !== y.length) return 0;
-  
-  const sumX = x.reduce((a, b) => a + b, 0);
-  const sumY = y.reduce((a, b) => a + b, 0);
-  const sumXY = x.reduce((a, xi, i) => a + xi * (y[i] ?? 0), 0);
-  const sumX2 = x.reduce((a, xi) => a + xi * xi, 0);
-  const sumY2 = y.reduce((a, yi) => a + yi * yi, 0);
-  
-  const numerator = n * sumXY - sumX * sumY;
-  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
-  
-  return denominator === 0 ? 0 : numerator / denominator;
-}
-
-const weeklyStats = getWeeklyStats();
-
-// Summary stats
-interface SummaryRow {
-  total_weeks: number;
-  total_user_weeks: number;
-  total_posts: number;
-  total_comments: number;
-  avg_weekly_users: number;
-}
-
-const summaryRow = db.prepare(`
-  SELECT 
-    COUNT(*) as total_weeks,
-    SUM(total_users) as total_user_weeks,
-    SUM(total_posts) as total_posts,
-    SUM(total_comments) as total_comments,
-    AVG(total_users) as avg_weekly_users
-  FROM weekly_stats
-`).get() as SummaryRow;
-
-interface PeakRow {
-  total_users: number;
-  week_start: string;
-}
-
-const peakRow = db.prepare(`
-  SELECT total_users, week_start 
-  FROM weekly_stats 
-  ORDER BY total_users DESC 
-  LIMIT 1
-`).get() as PeakRow;
-
-// Get LAST COMPLETE WEEK (not current truncated week)
-// Skip the most recent week and get the one before it
-interface LastCompleteWeekRow {
-  total_users: number;
-  week_start: string;
-  year: number;
-  week: number;
-}
-
-const lastCompleteWeekRow = db.prepare(`
-  SELECT total_users, week_start, year, week
-  FROM weekly_stats 
-  ORDER BY year DESC, week DESC 
-  LIMIT 1 OFFSET 1
-`).get() as LastCompleteWeekRow;
-
-// Year over year stats
-interface YearRow {
-  year: number;
-  avg_weekly_users: number;
-  total_posts: number;
-  total_comments: number;
-}
-
-const yearRows = db.prepare(`
-  SELECT 
-    year,
-    AVG(total_users) as avg_weekly_users,
-    SUM(total_posts) as total_posts,
-    SUM(total_comments) as total_comments
-  FROM weekly_stats
-  GROUP BY year
-  ORDER BY year
-`).all() as YearRow[];
-
-const yearOverYear = yearRows.map((row, i) => {
-  const priceRow = db.prepare(`
-    SELECT AVG(price_usd) as avg_price
-    FROM price_history
-    WHERE strftime('%Y', date) = ?
-  `).get(String(row.year)) as { avg_price: number | null };
-  
-  const prevYear = i > 0 ? yearRows[i - 1] : null;
-  const changePercent = prevYear 
-    ? ((row.avg_weekly_users - prevYear.avg_weekly_users) / prevYear.avg_weekly_users) * 100
-    : null;
-  
-  return {
-    year: row.year,
-    avgWeeklyUsers: Math.round(row.avg_weekly_users),
-    avgPrice: priceRow.avg_price ? Number(priceRow.avg_price.toFixed(4)) : null,
-    totalPosts: row.total_posts,
-    totalComments: row.total_comments,
-    changePercent: changePercent ? Number(changePercent.toFixed(1)) : null,
-  };
-});
-
-// Calculate price-user correlation
-const dataWithPrice = weeklyStats.filter(w => w.avg_price !== null && w.avg_price > 0);
-const prices = dataWithPrice.map(w => w.avg_price as number);
-const users = dataWithPrice.map(w => w.total_users);
-const correlation = calculateCorrelation(prices, users);
-
-let correlationDesc = "No significant correlation";
-if (correlation > 0.7) correlationDesc = "Strong positive correlation - price and users move together";
-else if (correlation > 0.4) correlationDesc = "Moderate positive correlation";
-else if (correlation > 0.2) correlationDesc = "Weak positive correlation";
-else if (correlation < -0.7) correlationDesc = "Strong negative correlation - inverse relationship";
-else if (correlation < -0.4) correlationDesc = "Moderate negative correlation";
-else if (correlation < -0.2) correlationDesc = "Weak negative correlation";
-
-// Activity tier distribution
-interface TierRow {
-  ultra: number;
-  very: number;
-  active: number;
-  occasional: number;
-  low: number;
-}
-
-const tierRow = db.prepare(`
-  SELECT 
-    SUM(ultra_active_users) as ultra,
-    SUM(very_active_users) as very,
-    SUM(active_users) as active,
-    SUM(occasional_users) as occasional,
-    SUM(low_activity_users) as low
-  FROM weekly_stats
-`).get() as TierRow;
-
-const totalTiers = tierRow.ultra + tierRow.very + tierRow.active + tierRow.occasional + tierRow.low;
+const db = openDatabase();
 
+// Same payload as /api/stats, plus the cohorts the dev server serves separately
 const data = {
-  weeklyStats,
-  summary: {
-    totalWeeks: summaryRow.total_weeks,
-    totalUserWeeks: summaryRow.total_user_weeks,
-    totalPosts: summaryRow.total_posts,
-    totalComments: summaryRow.total_comments,
-    avgWeeklyUsers: Math.round(summaryRow.avg_weekly_users),
-    peakWeeklyUsers: peakRow.total_users,
-    peakWeekDate: peakRow.week_start,
-    // Use last COMPLETE week, not current truncated week
-    lastCompleteWeekUsers: lastCompleteWeekRow.total_users,
-    lastCompleteWeekDate: lastCompleteWeekRow.week_start,
-  },
-  insights: {
-    yearOverYear,
-    correlations: {
-      priceUserCorrelation: Number(correlation.toFixed(3)),
-      description: correlationDesc,
-    },
-    activityDistribution: {
-      ultraActive: Number(((tierRow.ultra / totalTiers) * 100).toFixed(1)),
-      veryActive: Number(((tierRow.very / totalTiers) * 100).toFixed(1)),
-      active: Number(((tierRow.active / totalTiers) * 100).toFixed(1)),
-      occasional: Number(((tierRow.occasional / totalTiers) * 100).toFixed(1)),
-      lowActivity: Number(((tierRow.low / totalTiers) * 100).toFixed(1)),
-    },
-  },
+  ...getStats(db),
+  cohorts: getCohorts(db),
   generatedAt: new Date().toISOString(),
 };
 
@@ -214,6 +18,50 @@ await Bun.write("public/data.json", JSON.stringify(data, null, 2));
 
 console.log("Exported data to public/data.json");
 console.log(`   ${data.weeklyStats.length} weeks of data`);
+console.log(`   ${data.dailyStats.length} days, ${data.monthlyStats.length} months of data`);
+console.log(`   ${data.weeklyVotes.length} weeks of vote data`);
+console.log(`   ${data.appActivity.weeks.length} weeks of app data (top apps: ${data.appActivity.apps.join(", ")})`);
 console.log(`   ${data.insights.yearOverYear.length} years analyzed`);
+console.log(`   ${data.cohorts.length} monthly cohorts`);
+
+// Leaderboards of every week, looked up by week start on the static site
+const leaderboardWeeks = db.prepare(`
+  SELECT DISTINCT week_start FROM weekly_leaderboards ORDER BY week_start
+`).all() as Array<{ week_start: string }>;
+const leaderboards = Object.fromEntries(leaderboardWeeks.map(({ week_start }) => [week_start, getLeaderboards(db, week_start)]));
+
+await Bun.write("public/leaderboards.json", JSON.stringify(leaderboards));
+
+console.log("Exported leaderboards to public/leaderboards.json");
+console.log(`   ${leaderboardWeeks.length} weeks of leaderboards`);
+
+// One file per community plus the selector's list, mirroring /api/communities
+const communities = getCommunities(db);
+
+await Bun.write(
+  "public/communities/index.json",
+  JSON.stringify({ communities: communities.slice(0, COMMUNITY_LIST_SIZE) })
+);
+for (const { id } of communities) {
+  await Bun.write(
+    `public/communities/${id}.json`,
+    JSON.stringify({ community: id, weeklyStats: getCommunityStats(db, id) })
+  );
+}
+
+console.log("Exported communities to public/communities/");
+console.log(`   ${communities.length} communities`);
+
+// Every table in every format for the dashboard's download menu
+const exportTables = Object.keys(EXPORT_TABLES) as ExportTableName[];
+const exportFormats = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+for (const table of exportTables) {
+  for (const format of exportFormats) {
+    await Bun.write(`public/exports/${table}.${format}`, encodeExport(db, table, format));
+  }
+}
+
+console.log("Exported tables to public/exports/");
+console.log(`   ${exportTables.join(", ")} as ${exportFormats.join(", ")}`);
 
 db.close();
@@ -0,0 +1,129 @@
+// Flat table exports for notebooks and spreadsheets. export-data.ts writes
+// every table in every format to public/exports/<table>.<format>, and the dev
+// server serves the same files at /api/export/<table>.<format>.
+//
+// Columns are flat: weekly tier counts become one <segment>_<tier> column per
+// segment and tier (e.g. creators_ultra), and missing values are null (empty
+// cells in CSV).
+
+import type { Database } from "bun:sqlite";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { SEGMENTS, TIERS } from "./tiers";
+import { getPriceHistory, getStats, getWeeklyStats } from "./stats";
+
+export type ExportTableName = "weekly_stats" | "prices" | "year_over_year";
+export type ExportFormat = "csv" | "ndjson" | "parquet";
+
+type ExportValue = string | number | null;
+type ExportRow = Record<string, ExportValue>;
+
+interface ExportColumn {
+  name: string;
+  type: "STRING" | "INT32" | "DOUBLE";
+}
+
+interface ExportTable {
+  columns: ExportColumn[];
+  rows: (db: Database) => ExportRow[];
+}
+
+const TIER_COLUMNS: ExportColumn[] = SEGMENTS.flatMap((segment) =>
+  TIERS.map((tier) => ({ name: `${segment}_${tier.key}`, type: "INT32" as const })));
+
+export const EXPORT_TABLES: Record<ExportTableName, ExportTable> = {
+  weekly_stats: {
+    columns: [
+      { name: "week_start", type: "STRING" },
+      { name: "year", type: "INT32" },
+      { name: "week", type: "INT32" },
+      { name: "total_users", type: "INT32" },
+      { name: "total_posts", type: "INT32" },
+      { name: "total_comments", type: "INT32" },
+      { name: "avg_price", type: "DOUBLE" },
+      { name: "internal_price", type: "DOUBLE" },
+      ...TIER_COLUMNS,
+    ],
+    rows: (db) => getWeeklyStats(db).map(({ tiers, ...week }) => ({
+      ...week,
+      ...Object.fromEntries(SEGMENTS.flatMap((segment) =>
+        TIERS.map((tier) => [`${segment}_${tier.key}`, tiers[segment][tier.key] ?? 0]))),
+    })),
+  },
+  prices: {
+    columns: [
+      { name: "date", type: "STRING" },
+      { name: "coin", type: "STRING" },
+      { name: "source", type: "STRING" },
+      { name: "open_usd", type: "DOUBLE" },
+      { name: "high_usd", type: "DOUBLE" },
+      { name: "low_usd", type: "DOUBLE" },
+      { name: "price_usd", type: "DOUBLE" },
+      { name: "volume", type: "DOUBLE" },
+      { name: "volume_usd", type: "DOUBLE" },
+    ],
+    rows: (db) => getPriceHistory(db).map((price) => ({ ...price })),
+  },
+  year_over_year: {
+    columns: [
+      { name: "year", type: "INT32" },
+      { name: "avg_weekly_users", type: "INT32" },
+      { name: "avg_price", type: "DOUBLE" },
+      { name: "total_posts", type: "INT32" },
+      { name: "total_comments", type: "INT32" },
+      { name: "change_percent", type: "DOUBLE" },
+    ],
+    rows: (db) => getStats(db).insights.yearOverYear.map((year) => ({
+      year: year.year,
+      avg_weekly_users: year.avgWeeklyUsers,
+      avg_price: year.avgPrice,
+      total_posts: year.totalPosts,
+      total_comments: year.totalComments,
+      change_percent: year.changePercent,
+    })),
+  },
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8" },
+  ndjson: { contentType: "application/x-ndjson" },
+  parquet: { contentType: "application/vnd.apache.parquet" },
+};
+
+// "weekly_stats.csv" -> its table and format, or null if either is unknown
+export function parseExportFile(file: string): { table: ExportTableName; format: ExportFormat } | null {
+  const [, table = "", format = ""] = /^(\w+)\.(\w+)$/.exec(file) ?? [];
+  if (!Object.hasOwn(EXPORT_TABLES, table) || !Object.hasOwn(EXPORT_FORMATS, format)) return null;
+  return { table: table as ExportTableName, format: format as ExportFormat };
+}
+
+function csvValue(value: ExportValue): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+// One table in one format, as written to public/exports/ and served by the API
+export function encodeExport(db: Database, table: ExportTableName, format: ExportFormat): string | ArrayBuffer {
+  const { columns, rows: getRows } = EXPORT_TABLES[table];
+  const rows = getRows(db);
+  
+  switch (format) {
+    case "csv":
+      return [
+        columns.map((column) => column.name).join(","),
+        ...rows.map((row) => columns.map((column) => csvValue(row[column.name] ?? null)).join(",")),
+      ].join("\n") + "\n";
+    case "ndjson":
+      return rows
+        .map((row) => JSON.stringify(Object.fromEntries(columns.map((column) => [column.name, row[column.name] ?? null]))) + "\n")
+        .join("");
+    case "parquet":
+      return parquetWriteBuffer({
+        columnData: columns.map((column) => ({
+          name: column.name,
+          data: rows.map((row) => row[column.name] ?? null),
+          type: column.type,
+        })),
+      });
+  }
+}
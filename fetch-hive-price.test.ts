@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { rmSync } from "fs";
+import { join } from "path";
+import { openDatabase } from "./migrations";
+import { reconcile, updatePrices } from "./fetch-hive-price";
+import type { CoinConfig, PriceProvider } from "./price-provider";
+import { makeTempDir } from "./test-helpers";
+
+// A finished coin, so no days are held back for refreshing
+const COIN: CoinConfig = { coin: "hive", symbol: "HIVE", coingeckoId: "hive", inception: "2024-01-01", end: "2024-01-03" };
+
+interface MockProvider extends PriceProvider {
+  failing: boolean;
+  requests: string[];
+}
+
+// Serves the given closing prices, or fails while `failing` is set, and
+// records the ranges it was asked for
+function mockProvider(name: string, closes: Record<string, number>): MockProvider {
+  const provider: MockProvider = {
+    name,
+    failing: false,
+    requests: [],
+    async fetchDailyHistory(_coin, from, to) {
+      provider.requests.push(`${from}..${to}`);
+      if (provider.failing) throw new Error(`${name} is down`);
+      return Object.entries(closes)
+        .filter(([date]) => date >= from && date <= to)
+        .map(([date, close]) => ({ date, open: null, high: null, low: null, close, volume: null, volumeUsd: null }));
+    },
+  };
+  return provider;
+}
+
+let dir: string;
+let db: Database;
+
+beforeEach(() => {
+  dir = makeTempDir();
+  db = openDatabase(join(dir, "prices.db"));
+});
+
+afterEach(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function storedPrices(): Array<{ date: string; price_usd: number; source: string }> {
+  return db.prepare(`SELECT date, price_usd, source FROM price_history ORDER BY date`).all() as Array<{ date: string; price_usd: number; source: string }>;
+}
+
+test("fails over to the next provider and records which one supplied each row", async () => {
+  const primary = mockProvider("primary", { "2024-01-01": 0.3, "2024-01-02": 0.31, "2024-01-03": 0.32, "2024-01-04": 0.33 });
+  const backup = mockProvider("backup", { "2024-01-01": 0.4, "2024-01-02": 0.41, "2024-01-03": 0.42 });
+  
+  primary.failing = true;
+  await updatePrices(db, [primary, backup], COIN, "2024-01-10");
+  expect(primary.requests).toEqual(["2024-01-01..2024-01-03"]);
+  expect(backup.requests).toEqual(["2024-01-01..2024-01-03"]);
+  
+  // Once the primary is back, only the new day is requested, from it alone
+  primary.failing = false;
+  await updatePrices(db, [primary, backup], { ...COIN, end: "2024-01-04" }, "2024-01-10");
+  expect(primary.requests).toEqual(["2024-01-01..2024-01-03", "2024-01-04..2024-01-04"]);
+  expect(backup.requests).toHaveLength(1);
+  
+  expect(storedPrices()).toEqual([
+    { date: "2024-01-01", price_usd: 0.4, source: "backup" },
+    { date: "2024-01-02", price_usd: 0.41, source: "backup" },
+    { date: "2024-01-03", price_usd: 0.42, source: "backup" },
+    { date: "2024-01-04", price_usd: 0.33, source: "primary" },
+  ]);
+});
+
+test("saves nothing when every provider fails", async () => {
+  const primary = mockProvider("primary", {});
+  const backup = mockProvider("backup", {});
+  primary.failing = true;
+  backup.failing = true;
+  
+  await updatePrices(db, [primary, backup], COIN, "2024-01-10");
+  expect(storedPrices()).toEqual([]);
+  
+  // The range was not checked, so the next run asks again
+  primary.failing = false;
+  await updatePrices(db, [primary, backup], COIN, "2024-01-10");
+  expect(primary.requests).toEqual(["2024-01-01..2024-01-03", "2024-01-01..2024-01-03"]);
+});
+
+test("only the days up to the last returned price count as checked", async () => {
+  // Listed on 2024-01-02, and nothing published for 2024-01-03 yet
+  const primary = mockProvider("primary", { "2024-01-02": 0.31 });
+  
+  await updatePrices(db, [primary], COIN, "2024-01-10");
+  await updatePrices(db, [primary], COIN, "2024-01-10");
+  expect(primary.requests).toEqual(["2024-01-01..2024-01-03", "2024-01-03..2024-01-03"]);
+});
+
+test("an empty answer checks nothing", async () => {
+  const primary = mockProvider("primary", {});
+  
+  await updatePrices(db, [primary], COIN, "2024-01-10");
+  await updatePrices(db, [primary], COIN, "2024-01-10");
+  expect(primary.requests).toEqual(["2024-01-01..2024-01-03", "2024-01-01..2024-01-03"]);
+});
+
+test("reconcile flags the days whose spread exceeds the threshold", async () => {
+  const a = mockProvider("a", { "2024-01-01": 0.3, "2024-01-02": 0.3, "2024-01-03": 0.3, "2024-01-04": 0.3 });
+  const b = mockProvider("b", { "2024-01-01": 0.303, "2024-01-02": 0.305, "2024-01-03": 0.33 });
+  
+  const reports = await reconcile([a, b], { from: "2024-01-01", to: "2024-01-04", threshold: 2 });
+  
+  // Only HIVE trades in 2024; 1% and 1.7% are within the threshold, 10% is not
+  expect(reports).toEqual([{
+    symbol: "HIVE",
+    compared: 3,
+    partial: 1,
+    flagged: [{ date: "2024-01-03", a: 0.3, b: 0.33, spread: "10.0%" }],
+  }]);
+  expect(storedPrices()).toEqual([]);
+});
@@ -1,72 +1,196 @@
-import { Database } from "bun:sqlite";
-
-// Fetch historical Hive price data from CryptoCompare (more generous free tier)
-
-interface CryptoCompareResponse {
-  Response: string;
-  Data: {
-    Data: Array<{
-      time: number;
-      close: number;
-      open: number;
-      high: number;
-      low: number;
-    }>;
+import type { Database } from "bun:sqlite";
+import { parseArgs } from "util";
+import { openDatabase } from "./migrations";
+import { DAY_MS, addDays, formatDay, parseDay } from "./periods";
+import { REQUEST_DELAY_MS, type CoinConfig, type DailyPrice, type PriceProvider } from "./price-provider";
+import { createCryptoCompareProvider } from "./cryptocompare-provider";
+import { createCoinGeckoProvider } from "./coingecko-provider";
+import { loadMockProvider } from "./mock-price-provider";
+import { CHAIN_ERAS, eraEnd } from "./eras";
+
+// Fetch historical Hive price data, from CryptoCompare by default with
+// CoinGecko as the fallback
+
+// Price identifiers of each chain era's coin
+const ERA_COINS: Record<string, { symbol: string; coingeckoId: string; listed?: string }> = {
+  // STEEM only started trading on July 4, 2016, months after the chain launched
+  steem: { symbol: "STEEM", coingeckoId: "steem", listed: "2016-07-04" },
+  hive: { symbol: "HIVE", coingeckoId: "hive" },
+};
+
+// Coins whose daily prices are kept, each for its chain era (see eras.ts)
+// from its first traded day to `end` (today if unset)
+const COINS: CoinConfig[] = CHAIN_ERAS.map((era) => {
+  const coin = ERA_COINS[era.coin];
+  if (!coin) {
+    throw new Error(`No price symbol configured for era coin "${era.coin}"`);
+  }
+  return {
+    coin: era.coin,
+    symbol: coin.symbol,
+    coingeckoId: coin.coingeckoId,
+    inception: coin.listed && coin.listed > era.from ? coin.listed : era.from,
+    end: eraEnd(era),
   };
+});
+
+// The most recent days are always refetched: today's candle is still open
+const REFRESH_DAYS = 2;
+
+// Providers selectable with --providers, in failover order by default.
+// "mock" needs --mock.
+const PROVIDER_NAMES = ["cryptocompare", "coingecko", "mock"];
+const DEFAULT_PROVIDERS = ["cryptocompare", "coingecko"];
+
+// Days the --reconcile report covers when --from is not given, and how far
+// (in percent of the lower price) providers may disagree before a day is flagged
+const DEFAULT_RECONCILE_DAYS = 30;
+const DEFAULT_RECONCILE_THRESHOLD = 2;
+
+interface CliOptions {
+  providers: string[];
+  mock?: string;
+  reconcile: boolean;
+  from?: string;
+  to?: string;
+  threshold: number;
 }
 
-async function fetchDailyHistory(symbol: string, toTs: number, limit: number = 2000): Promise<Array<{ date: string; price: number }>> {
-  const url = `https://min-api.cryptocompare.com/data/v2/histoday?fsym=${symbol}&tsym=USD&limit=${limit}&toTs=${toTs}`;
+function parseCliOptions(): CliOptions {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      providers: { type: "string" },
+      mock: { type: "string" },
+      reconcile: { type: "boolean", default: false },
+      from: { type: "string" },
+      to: { type: "string" },
+      threshold: { type: "string" },
+    },
+  });
   
-  const res = await fetch(url);
+  // A mock source alone means working offline against it
+  const providers = values.providers?.split(",").map((name) => name.trim())
+    ?? (values.mock ? ["mock"] : DEFAULT_PROVIDERS);
+  for (const name of providers) {
+    if (!PROVIDER_NAMES.includes(name)) {
+      throw new Error(`Unknown price provider "${name}" (expected ${PROVIDER_NAMES.join(", ")})`);
+    }
+  }
+  if (providers.includes("mock") && !values.mock) {
+    throw new Error("The mock provider needs --mock <file or URL>");
+  }
   
-  if (!res.ok) {
-    throw new Error(`CryptoCompare API error: ${res.status}`);
+  for (const value of [values.from, values.to]) {
+    if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new Error(`Invalid date "${value}" (expected YYYY-MM-DD)`);
+    }
   }
   
-  const data = await res.json() as CryptoCompareResponse;
+  const threshold = values.threshold !== undefined ? parseFloat(values.threshold) : DEFAULT_RECONCILE_THRESHOLD;
+  if (isNaN(threshold) || threshold < 0) {
+    throw new Error(`Invalid --threshold value "${values.threshold}" (expected a percentage)`);
+  }
   
-  if (data.Response !== "Success") {
-    throw new Error(`CryptoCompare error: ${JSON.stringify(data)}`);
+  return {
+    providers,
+    mock: values.mock,
+    reconcile: values.reconcile ?? false,
+    from: values.from,
+    to: values.to,
+    threshold,
+  };
+}
+
+async function createProviders(options: CliOptions): Promise<PriceProvider[]> {
+  const providers: PriceProvider[] = [];
+  for (const name of options.providers) {
+    if (name === "cryptocompare") providers.push(createCryptoCompareProvider());
+    if (name === "coingecko") providers.push(createCoinGeckoProvider());
+    if (name === "mock" && options.mock) providers.push(await loadMockProvider(options.mock));
+  }
+  return providers;
+}
+
+// Ask each provider in turn until one answers
+export async function fetchWithFailover(
+  providers: PriceProvider[],
+  coin: CoinConfig,
+  from: string,
+  to: string,
+): Promise<{ provider: PriceProvider; prices: DailyPrice[] }> {
+  const errors: string[] = [];
+  for (const provider of providers) {
+    try {
+      return { provider, prices: await provider.fetchDailyHistory(coin, from, to) };
+    } catch (err) {
+      const message = (err as Error).message;
+      console.warn(`  ${provider.name} failed: ${message}`);
+      errors.push(`${provider.name}: ${message}`);
+    }
+  }
+  throw new Error(`no provider could deliver prices (${errors.join("; ")})`);
+}
+
+// Date ranges (inclusive) between `from` and `to` without a stored price.
+// Days inside an already checked range don't count: the provider had no
+// price for them.
+function findGaps(db: Database, coin: string, from: string, to: string): Array<{ from: string; to: string }> {
+  const stored = new Set((db.prepare(`
+    SELECT date FROM price_history WHERE coin = $coin AND date >= $from AND date <= $to
+  `).all({ $coin: coin, $from: from, $to: to }) as Array<{ date: string }>).map((row) => row.date));
+  const checked = db.prepare(`
+    SELECT date_from, date_to FROM price_checked_ranges
+    WHERE coin = $coin AND date_to >= $from AND date_from <= $to
+  `).all({ $coin: coin, $from: from, $to: to }) as Array<{ date_from: string; date_to: string }>;
+  for (const range of checked) {
+    for (let day = parseDay(range.date_from); day <= parseDay(range.date_to); day = addDays(day, 1)) {
+      stored.add(formatDay(day));
+    }
   }
   
-  return data.Data.Data
-    .filter(d => d.close > 0) // Filter out days with no trading
-    .map(d => {
-      const dateStr = new Date(d.time * 1000).toISOString().split("T")[0];
-      return {
-        date: dateStr ?? "",
-        price: d.close,
-      };
-    })
-    .filter(d => d.date !== "");
+  const gaps: Array<{ from: string; to: string }> = [];
+  for (let day = parseDay(from); day <= parseDay(to); day = addDays(day, 1)) {
+    const date = formatDay(day);
+    if (stored.has(date)) continue;
+    const last = gaps[gaps.length - 1];
+    if (last && last.to === formatDay(addDays(day, -1))) {
+      last.to = date;
+    } else {
+      gaps.push({ from: date, to: date });
+    }
+  }
+  return gaps;
 }
 
-function initPriceTable(db: Database) {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS price_history (
-      date TEXT PRIMARY KEY,
-      coin TEXT NOT NULL,
-      price_usd REAL NOT NULL,
-      fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-    
-    CREATE INDEX IF NOT EXISTS idx_price_coin ON price_history(coin);
-  `);
+function recordChecked(db: Database, coin: string, source: string, from: string, to: string) {
+  db.prepare(`
+    INSERT OR REPLACE INTO price_checked_ranges (coin, date_from, date_to, source)
+    VALUES ($coin, $from, $to, $source)
+  `).run({ $coin: coin, $from: from, $to: to, $source: source });
 }
 
-function savePrices(db: Database, coin: string, prices: Array<{ date: string; price: number }>) {
+function savePrices(db: Database, coin: string, source: string, prices: DailyPrice[]) {
   const insert = db.prepare(`
-    INSERT OR REPLACE INTO price_history (date, coin, price_usd)
-    VALUES ($date, $coin, $price_usd)
+    INSERT OR REPLACE INTO price_history (
+      coin, date, open_usd, high_usd, low_usd, price_usd, volume, volume_usd, source
+    ) VALUES (
+      $coin, $date, $open_usd, $high_usd, $low_usd, $price_usd, $volume, $volume_usd, $source
+    )
   `);
   
   const insertMany = db.transaction(() => {
     for (const p of prices) {
       insert.run({
-        $date: p.date,
         $coin: coin,
-        $price_usd: p.price,
+        $date: p.date,
+        $open_usd: p.open,
+        $high_usd: p.high,
+        $low_usd: p.low,
+        $price_usd: p.close,
+        $volume: p.volume,
+        $volume_usd: p.volumeUsd,
+        $source: source,
       });
     }
   });
@@ -74,70 +198,157 @@ function savePrices(db: Database, coin: string, prices: Array<{ date: string; pr
   insertMany();
 }
 
-async function main() {
-  const db = new Database("hive-stats.db");
-  initPriceTable(db);
-  
-  const now = Math.floor(Date.now() / 1000);
+export interface ReconcileReport {
+  symbol: string;
+  compared: number;
+  // Days some provider that answered has no price for
+  partial: number;
+  flagged: Array<Record<string, string | number>>;
+}
+
+// Fetch the same days from every provider and report the days on which their
+// closing prices differ by more than the threshold. Nothing is saved.
+export async function reconcile(
+  providers: PriceProvider[],
+  options: Pick<CliOptions, "from" | "to" | "threshold">,
+): Promise<ReconcileReport[]> {
+  const to = options.to ?? formatDay(new Date());
+  const from = options.from ?? formatDay(addDays(parseDay(to), -(DEFAULT_RECONCILE_DAYS - 1)));
+  console.log(`Reconciling ${providers.map((p) => p.name).join(", ")} from ${from} to ${to} (threshold ${options.threshold}%)\n`);
+  if (providers.length < 2) {
+    console.log("Note: only one provider selected, so there is nothing to compare against");
+  }
   
-  // Fetch STEEM historical prices (for pre-Hive era 2016-2020)
-  console.log("Fetching STEEM price history...");
+  const reports: ReconcileReport[] = [];
+  for (const config of COINS) {
+    const start = from > config.inception ? from : config.inception;
+    const end = config.end && config.end < to ? config.end : to;
+    if (start > end) continue;
+    
+    // Closing price per day and provider
+    const closes = new Map<string, Record<string, number>>();
+    const answered: string[] = [];
+    for (const provider of providers) {
+      try {
+        for (const price of await provider.fetchDailyHistory(config, start, end)) {
+          closes.set(price.date, { ...closes.get(price.date), [provider.name]: price.close });
+        }
+        answered.push(provider.name);
+      } catch (err) {
+        console.warn(`  ${provider.name} failed for ${config.symbol}: ${(err as Error).message}`);
+      }
+    }
+    
+    const flagged: Array<Record<string, string | number>> = [];
+    let compared = 0;
+    let partial = 0;
+    for (const [date, byProvider] of [...closes].sort(([a], [b]) => a.localeCompare(b))) {
+      const values = Object.values(byProvider);
+      if (values.length < answered.length) partial++;
+      if (values.length < 2) continue;
+      compared++;
+      const low = Math.min(...values);
+      const spread = ((Math.max(...values) - low) / low) * 100;
+      if (spread > options.threshold) {
+        flagged.push({ date, ...byProvider, spread: `${spread.toFixed(1)}%` });
+      }
+    }
+    
+    console.log(`${config.symbol}: ${compared} days compared, ${flagged.length} above ${options.threshold}%, ${partial} days missing from some provider`);
+    if (flagged.length > 0) {
+      console.table(flagged);
+    }
+    reports.push({ symbol: config.symbol, compared, partial, flagged });
+  }
+  return reports;
+}
+
+// Fill a coin's missing days up to today (or its end) from the first
+// provider that answers for each gap
+export async function updatePrices(db: Database, providers: PriceProvider[], config: CoinConfig, today: string) {
+  const end = config.end && config.end < today ? config.end : today;
+  console.log(`Fetching ${config.symbol} price history (${config.inception} to ${end})...`);
   
-  // CryptoCompare allows up to 2000 data points per request
-  // Steem launched July 4, 2016 - we need data until March 2020
-  const steemEndTs = Math.floor(new Date("2020-03-19").getTime() / 1000);
+  // Days in the refresh window may still get a price, so they are never
+  // recorded as checked
+  const refreshFrom = config.end ? null : formatDay(addDays(parseDay(end), -(REFRESH_DAYS - 1)));
+  const gaps = findGaps(db, config.coin, config.inception, end);
+  if (refreshFrom) {
+    const last = gaps[gaps.length - 1];
+    if (last && last.to === end) {
+      last.from = last.from < refreshFrom ? last.from : refreshFrom;
+    } else {
+      gaps.push({ from: refreshFrom, to: end });
+    }
+  }
+  if (gaps.length === 0) {
+    console.log("  Up to date\n");
+    return;
+  }
   
-  try {
-    const steemPrices = await fetchDailyHistory("STEEM", steemEndTs, 2000);
-    if (steemPrices.length > 0) {
-      savePrices(db, "steem", steemPrices);
-      const first = steemPrices[0];
-      const last = steemPrices[steemPrices.length - 1];
-      if (first && last) {
-        console.log(`  Saved ${steemPrices.length} STEEM price points (${first.date} to ${last.date})`);
-      }
+  for (const gap of gaps) {
+    try {
+      const { provider, prices } = await fetchWithFailover(providers, config, gap.from, gap.to);
+      savePrices(db, config.coin, provider.name, prices);
+      // Days after the last returned price may not be published yet, so only
+      // the range up to it counts as checked (none of it if nothing came back)
+      const lastReturned = prices.reduce((last, price) => (price.date > last ? price.date : last), "");
+      const beforeRefresh = refreshFrom ? formatDay(addDays(parseDay(refreshFrom), -1)) : gap.to;
+      const checkedTo = [lastReturned, gap.to, beforeRefresh].sort()[0] ?? "";
+      if (checkedTo >= gap.from) recordChecked(db, config.coin, provider.name, gap.from, checkedTo);
+      console.log(`  ${gap.from} to ${gap.to}: saved ${prices.length} ${config.symbol} price points from ${provider.name}`);
+    } catch (err) {
+      console.error(`  Error fetching ${config.symbol} ${gap.from} to ${gap.to}: ${(err as Error).message}`);
     }
-  } catch (err) {
-    console.error(`  Error fetching STEEM: ${(err as Error).message}`);
+    await Bun.sleep(REQUEST_DELAY_MS);
   }
+  console.log();
+}
+
+async function main() {
+  const options = parseCliOptions();
+  const providers = await createProviders(options);
   
-  await Bun.sleep(500);
+  if (options.reconcile) {
+    await reconcile(providers, options);
+    return;
+  }
   
-  // Fetch HIVE historical prices (2020-present)
-  console.log("\nFetching HIVE price history...");
+  const db = openDatabase();
+  const today = formatDay(new Date());
+  console.log(`Providers: ${providers.map((p) => p.name).join(", ")}\n`);
   
-  try {
-    const hivePrices = await fetchDailyHistory("HIVE", now, 2000);
-    if (hivePrices.length > 0) {
-      savePrices(db, "hive", hivePrices);
-      const first = hivePrices[0];
-      const last = hivePrices[hivePrices.length - 1];
-      if (first && last) {
-        console.log(`  Saved ${hivePrices.length} HIVE price points (${first.date} to ${last.date})`);
-      }
-    }
-  } catch (err) {
-    console.error(`  Error fetching HIVE: ${(err as Error).message}`);
+  for (const config of COINS) {
+    await updatePrices(db, providers, config, today);
   }
   
   // Summary
   interface CountRow { count: number; min_date: string; max_date: string }
-  const steemCount = db.prepare(`
-    SELECT COUNT(*) as count, MIN(date) as min_date, MAX(date) as max_date 
-    FROM price_history WHERE coin = 'steem'
-  `).get() as CountRow;
-  
-  const hiveCount = db.prepare(`
-    SELECT COUNT(*) as count, MIN(date) as min_date, MAX(date) as max_date 
-    FROM price_history WHERE coin = 'hive'
-  `).get() as CountRow;
-  
-  console.log("\n=== Price Data Summary ===");
-  console.log(`STEEM: ${steemCount.count} days (${steemCount.min_date} to ${steemCount.max_date})`);
-  console.log(`HIVE: ${hiveCount.count} days (${hiveCount.min_date} to ${hiveCount.max_date})`);
+  console.log("=== Price Data Summary ===");
+  for (const config of COINS) {
+    const sources = db.prepare(`
+      SELECT COALESCE(source, 'unknown') as source, COUNT(*) as count FROM price_history
+      WHERE coin = $coin GROUP BY source ORDER BY count DESC
+    `).all({ $coin: config.coin }) as Array<{ source: string; count: number }>;
+    const count = db.prepare(`
+      SELECT COUNT(*) as count, MIN(date) as min_date, MAX(date) as max_date 
+      FROM price_history WHERE coin = $coin
+    `).get({ $coin: config.coin }) as CountRow;
+    const missing = count.min_date
+      ? findGaps(db, config.coin, count.min_date, count.max_date)
+        .reduce((sum, gap) => sum + Math.round((parseDay(gap.to).getTime() - parseDay(gap.from).getTime()) / DAY_MS) + 1, 0)
+      : 0;
+    console.log(`${config.symbol}: ${count.count} days (${count.min_date} to ${count.max_date}), ${missing} days missing in between`);
+    if (sources.length > 0) {
+      console.log(`  sources: ${sources.map((row) => `${row.source} ${row.count}`).join(", ")}`);
+    }
+  }
   
   db.close();
   console.log("\nDone!");
 }
 
-main().catch(console.error);
+// The tests import the functions above without running the CLI
+if (import.meta.main) {
+  main().catch(console.error);
+}
@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { rmSync } from "fs";
+import { join } from "path";
+import { fetchSampleChain, makeTempDir } from "./test-helpers";
+
+// The sample chain runs from Thursday 2023-12-28 to Thursday 2024-01-18, so its
+// first week straddles New Year. Expected values are counted by hand from
+// fixtures/sample-chain.json.
+let dir: string;
+let db: Database;
+let sundayDb: Database;
+
+beforeAll(() => {
+  dir = makeTempDir();
+  fetchSampleChain(join(dir, "monday.db"));
+  fetchSampleChain(join(dir, "sunday.db"), { WEEK_START_DAY: "7" });
+  db = new Database(join(dir, "monday.db"), { readonly: true });
+  sundayDb = new Database(join(dir, "sunday.db"), { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+  sundayDb.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function weeks(db: Database): unknown[][] {
+  return db.prepare(`
+    SELECT week_start, year, week, total_users, total_posts, total_comments FROM weekly_stats ORDER BY week_start
+  `).values();
+}
+
+// Non-zero tier counts of one period by segment, as stored in tier_stats
+function tierCounts(granularity: string, periodStart: string): Record<string, Record<string, number>> {
+  const rows = db.prepare(`
+    SELECT segment, tier, users FROM tier_stats
+    WHERE granularity = ? AND period_start = ? AND users > 0
+  `).all(granularity, periodStart) as Array<{ segment: string; tier: string; users: number }>;
+  const counts: Record<string, Record<string, number>> = {};
+  for (const row of rows) counts[row.segment] = { ...counts[row.segment], [row.tier]: row.users };
+  return counts;
+}
+
+describe("weeks", () => {
+  test("are ISO weeks starting on Monday by default", () => {
+    expect(weeks(db)).toEqual([
+      // Thursday 2023-12-28 belongs to the last week of 2023
+      ["2023-12-25", 2023, 52, 1, 1, 0],
+      ["2024-01-01", 2024, 1, 3, 2, 5],
+      ["2024-01-08", 2024, 2, 3, 2, 2],
+      ["2024-01-15", 2024, 3, 2, 1, 1],
+    ]);
+  });
+  
+  test("start on WEEK_START_DAY and take the year of their Thursday", () => {
+    expect(weeks(sundayDb)).toEqual([
+      ["2023-12-24", 2023, 52, 1, 1, 0],
+      // Sunday 2023-12-31 starts week 1 of 2024, whose Thursday is 2024-01-04
+      ["2023-12-31", 2024, 1, 3, 2, 5],
+      ["2024-01-07", 2024, 2, 3, 2, 2],
+      ["2024-01-14", 2024, 3, 2, 1, 1],
+    ]);
+  });
+});
+
+describe("tier counts", () => {
+  test("per week", () => {
+    // alice posted and commented 3 times, bob posted and commented, carol
+    // only commented twice
+    expect(tierCounts("week", "2024-01-01")).toEqual({
+      all: { occasional: 1, low: 2 },
+      creators: { occasional: 1, low: 1 },
+      commenters: { low: 1 },
+    });
+  });
+  
+  test("per day", () => {
+    // alice commented, bob posted
+    expect(tierCounts("day", "2024-01-02")).toEqual({
+      all: { low: 2 },
+      creators: { low: 1 },
+      commenters: { low: 1 },
+    });
+  });
+  
+  test("per month", () => {
+    // 3-4 actions each, below the monthly minimum of 12 for "occasional"
+    expect(tierCounts("month", "2023-12-01")).toEqual({ all: { low: 1 }, creators: { low: 1 } });
+    expect(tierCounts("month", "2024-01-01")).toEqual({
+      all: { low: 4 },
+      creators: { low: 3 },
+      commenters: { low: 1 },
+    });
+  });
+});
+
+test("weekly growth splits authors into new, retained, resurrected and churned", () => {
+  expect(db.prepare(`
+    SELECT week_start, new_users, retained_users, resurrected_users, churned_users FROM weekly_growth ORDER BY week_start
+  `).values()).toEqual([
+    ["2023-12-25", 1, 0, 0, 0],
+    // bob and carol join alice
+    ["2024-01-01", 2, 1, 0, 0],
+    // dave joins, bob pauses
+    ["2024-01-08", 1, 2, 0, 1],
+    // bob returns, alice and carol pause
+    ["2024-01-15", 0, 1, 1, 2],
+  ]);
+});
+
+test("cohorts follow authors from their first active month", () => {
+  expect(db.prepare(`
+    SELECT cohort_month, active_month, months_since, active_users FROM cohort_retention ORDER BY cohort_month, active_month
+  `).values()).toEqual([
+    // alice, active again in January
+    ["2023-12-01", "2023-12-01", 0, 1],
+    ["2023-12-01", "2024-01-01", 1, 1],
+    // bob, carol and dave
+    ["2024-01-01", "2024-01-01", 0, 3],
+  ]);
+});
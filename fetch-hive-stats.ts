@@ -1,212 +1,853 @@
 import dotenv from "dotenv";
-import sql from "mssql";
 import { Database } from "bun:sqlite";
+import { parseArgs } from "util";
+import { SEGMENTS, type Granularity } from "./tiers";
+import {
+  WEEK_START_DAY,
+  addDays,
+  alignToPeriodEnd,
+  firstPeriodOfMonth,
+  firstWeekStart,
+  formatDay,
+  parseDay,
+  startOfPeriod,
+  startOfWeek,
+  weekNumber,
+} from "./periods";
+import type {
+  AppWeeklyStats,
+  ChainDataSource,
+  CohortActivity,
+  CommunityWeeklyStats,
+  FetchWindow,
+  InternalMarketDay,
+  LeaderboardEntry,
+  PeriodStats,
+  WeeklyGrowth,
+  WeeklyVotes,
+} from "./chain-data-source";
+import { connectHiveSql } from "./hivesql-source";
+import { openFixture } from "./fixture-source";
+import { CHAIN_ERAS, eraOn } from "./eras";
+import { DEFAULT_DB_PATH, openDatabase } from "./migrations";
 
 dotenv.config();
 
-const config: sql.config = {
-  server: "vip.hivesql.io",
-  port: 1433,
-  database: "DBHive",
-  user: process.env.HIVESQL_USERNAME,
-  password: process.env.HIVESQL_PASSWORD,
-  options: {
-    encrypt: true,
-    trustServerCertificate: true,
-  },
-  requestTimeout: 600000, // 10 minutes for heavy queries
-  connectionTimeout: 60000,
-};
+// Stats are aggregated per day (DAU), week (WAU) and calendar month (MAU)
+const GRANULARITIES: Granularity[] = ["day", "week", "month"];
+
+// Number of most recent weeks re-queried by an incremental run. The newest
+// stored week is usually the truncated current one, so it always gets refreshed.
+const DEFAULT_REFRESH_WEEKS = 2;
 
-// Activity tiers based on weekly posts+comments
-// Ultra Active: 50+ actions/week
-// Very Active: 20-49 actions/week  
-// Active: 10-19 actions/week
-// Occasional: 3-9 actions/week
-// Low: 1-2 actions/week
-
-interface WeeklyStats {
-  year: number;
-  week: number;
-  week_start: Date;
-  total_users: number;
-  total_posts: number;
-  total_comments: number;
-  ultra_active_users: number;   // 50+
-  very_active_users: number;    // 20-49
-  active_users: number;         // 10-19
-  occasional_users: number;     // 3-9
-  low_activity_users: number;   // 1-2
-}
-
-function initDatabase(dbPath: string): Database {
-  const db = new Database(dbPath, { create: true });
-  
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS weekly_stats (
-      year INTEGER NOT NULL,
-      week INTEGER NOT NULL,
-      week_start TEXT NOT NULL,
-      total_users INTEGER NOT NULL,
-      total_posts INTEGER NOT NULL,
-      total_comments INTEGER NOT NULL,
-      ultra_active_users INTEGER NOT NULL,
-      very_active_users INTEGER NOT NULL,
-      active_users INTEGER NOT NULL,
-      occasional_users INTEGER NOT NULL,
-      low_activity_users INTEGER NOT NULL,
-      fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
-      PRIMARY KEY (year, week)
-    );
+// Parse a --from/--to value: either a year ("2021") or a date ("2021-06-15").
+// Both bounds are inclusive on the command line; `to` is returned exclusive.
+// A year selects the weeks of that week-numbering year.
+function parseBoundary(value: string, isEnd: boolean): Date {
+  if (/^\d{4}$/.test(value)) {
+    const year = parseInt(value);
+    return firstWeekStart(isEnd ? year + 1 : year);
+  }
+  
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = parseDay(value);
+    if (!isNaN(date.getTime())) {
+      return isEnd ? addDays(date, 1) : date;
+    }
+  }
+  
+  throw new Error(`Invalid date "${value}" (expected YYYY or YYYY-MM-DD)`);
+}
+
+// Split [from, to) into one window per calendar month, aligned to whole
+// periods. Weeks are fetched with the month they start in, so a user active
+// on both sides of a month boundary is still counted once for that week.
+function buildWindows(granularity: Granularity, from: Date, to: Date): FetchWindow[] {
+  const windows: FetchWindow[] = [];
+  let start = startOfPeriod(granularity, from);
+  const end = alignToPeriodEnd(granularity, to);
+  
+  while (start < end) {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth();
+    const nextMonth = firstPeriodOfMonth(granularity, year, month + 1);
+    const stop = nextMonth < end ? nextMonth : end;
+    const isWholeMonth = start.getTime() === firstPeriodOfMonth(granularity, year, month).getTime()
+      && stop.getTime() === nextMonth.getTime();
+    const monthLabel = `${year}-${String(month + 1).padStart(2, "0")}`;
     
-    CREATE INDEX IF NOT EXISTS idx_week_start ON weekly_stats(week_start);
+    windows.push({
+      granularity,
+      from: start,
+      to: stop,
+      label: `${isWholeMonth ? monthLabel : `${formatDay(start)} to ${formatDay(addDays(stop, -1))}`} (${granularity})`,
+    });
+    start = stop;
+  }
+  
+  return windows;
+}
+
+// Table and period key column for each granularity
+const PERIOD_TABLES: Record<Granularity, { table: string; key: string }> = {
+  day: { table: "daily_stats", key: "date" },
+  week: { table: "weekly_stats", key: "week_start" },
+  month: { table: "monthly_stats", key: "month_start" },
+};
+
+// Other tables filled from the same windows as each granularity's stats,
+// optionally restricted to the rows those windows write
+const DERIVED_TABLES: Record<Granularity, Array<{ table: string; key: string; where?: string }>> = {
+  day: [{
+    table: "price_history",
+    key: "date",
+    where: `coin IN (${CHAIN_ERAS.map((era) => `'${era.internalCoin}'`).join(", ")})`,
+  }],
+  week: [
+    { table: "weekly_growth", key: "week_start" },
+    { table: "weekly_votes", key: "week_start" },
+    { table: "weekly_leaderboards", key: "week_start" },
+    { table: "community_weekly_stats", key: "week_start" },
+    { table: "weekly_app_stats", key: "week_start" },
+  ],
+  month: [{ table: "cohort_retention", key: "active_month" }],
+};
+
+// Returns the date from which weekly_stats must be rebuilt, or null if every
+// stored week already matches the current week definition. This covers both
+// the legacy DATEPART table and rows saved with a different WEEK_START_DAY.
+function findRebuildStart(db: Database): Date | null {
+  const starts: string[] = [];
+  
+  const legacy = db.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'weekly_stats_legacy'
+  `).get();
+  if (legacy) {
+    const row = db.prepare(`SELECT MIN(week_start) as min_week_start FROM weekly_stats_legacy`)
+      .get() as { min_week_start: string | null };
+    starts.push(row.min_week_start ?? formatDay(startOfWeek(new Date())));
+  }
+  
+  // strftime('%w') is 0 = Sunday, like getUTCDay()
+  const mismatched = db.prepare(`
+    SELECT MIN(week_start) as min_week_start FROM weekly_stats
+    WHERE CAST(strftime('%w', week_start) AS INTEGER) != $weekday
+  `).get({ $weekday: WEEK_START_DAY % 7 }) as { min_week_start: string | null };
+  if (mismatched.min_week_start) starts.push(mismatched.min_week_start);
+  
+  const earliest = starts.sort()[0];
+  return earliest ? parseDay(earliest) : null;
+}
+
+
+// Columns identifying a period in its table, besides the shared stat columns
+function periodKey(granularity: Granularity, periodStart: Date): Record<string, string | number> {
+  const start = formatDay(periodStart);
+  switch (granularity) {
+    case "day":
+      return { date: start };
+    case "week":
+      return { week_start: start, ...weekNumber(periodStart) };
+    case "month":
+      return { month_start: start, year: periodStart.getUTCFullYear(), month: periodStart.getUTCMonth() + 1 };
+  }
+}
+
+function saveToDatabase(db: Database, granularity: Granularity, stats: PeriodStats[]) {
+  const { table } = PERIOD_TABLES[granularity];
+  const keyColumns = Object.keys(periodKey(granularity, new Date(0)));
+  const columns = [
+    ...keyColumns,
+    "total_users", "total_posts", "total_comments",
+  ];
+  
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO ${table} (${columns.join(", ")})
+    VALUES (${columns.map((c) => `$${c}`).join(", ")})
+  `);
+  // Tiers that are no longer configured are dropped with the period's old counts
+  const clearTiers = db.prepare(`
+    DELETE FROM tier_stats WHERE granularity = $granularity AND period_start = $period_start
+  `);
+  const insertTier = db.prepare(`
+    INSERT INTO tier_stats (granularity, period_start, segment, tier, users)
+    VALUES ($granularity, $period_start, $segment, $tier, $users)
   `);
   
-  return db;
-}
-
-async function fetchWeeklyStats(pool: sql.ConnectionPool, year: number): Promise<WeeklyStats[]> {
-  console.log(`Fetching data for ${year}...`);
-  
-  // OPTIMIZED: Use date range filter instead of DATEPART function
-  // This allows SQL Server to use indexes on the created column
-  // DATEPART(YEAR, created) = @year forces a full table scan
-  // created >= DATEFROMPARTS(@year, 1, 1) AND created < DATEFROMPARTS(@year + 1, 1, 1) uses indexes
-  const result = await pool.request()
-    .input("year", sql.Int, year)
-    .query(`
-      WITH UserWeeklyActivity AS (
-        -- Count posts per user per week
-        SELECT 
-          author,
-          DATEPART(YEAR, created) as year,
-          DATEPART(WEEK, created) as week,
-          COUNT(*) as post_count,
-          0 as comment_count
-        FROM Comments  -- In HiveSQL, Comments table contains both posts and comments
-        WHERE parent_author = ''  -- Posts have empty parent_author
-          AND created >= DATEFROMPARTS(@year, 1, 1)
-          AND created < DATEFROMPARTS(@year + 1, 1, 1)
-        GROUP BY author, DATEPART(YEAR, created), DATEPART(WEEK, created)
-        
-        UNION ALL
-        
-        -- Count comments per user per week
-        SELECT 
-          author,
-          DATEPART(YEAR, created) as year,
-          DATEPART(WEEK, created) as week,
-          0 as post_count,
-          COUNT(*) as comment_count
-        FROM Comments
-        WHERE parent_author != ''  -- Comments have a parent_author
-          AND created >= DATEFROMPARTS(@year, 1, 1)
-          AND created < DATEFROMPARTS(@year + 1, 1, 1)
-        GROUP BY author, DATEPART(YEAR, created), DATEPART(WEEK, created)
-      ),
-      UserWeeklyTotals AS (
-        SELECT 
-          author,
-          year,
-          week,
-          SUM(post_count) as posts,
-          SUM(comment_count) as comments,
-          SUM(post_count) + SUM(comment_count) as total_activity
-        FROM UserWeeklyActivity
-        GROUP BY author, year, week
-      ),
-      WeeklyAggregates AS (
-        SELECT
-          year,
-          week,
-          COUNT(DISTINCT author) as total_users,
-          SUM(posts) as total_posts,
-          SUM(comments) as total_comments,
-          SUM(CASE WHEN total_activity >= 50 THEN 1 ELSE 0 END) as ultra_active_users,
-          SUM(CASE WHEN total_activity >= 20 AND total_activity < 50 THEN 1 ELSE 0 END) as very_active_users,
-          SUM(CASE WHEN total_activity >= 10 AND total_activity < 20 THEN 1 ELSE 0 END) as active_users,
-          SUM(CASE WHEN total_activity >= 3 AND total_activity < 10 THEN 1 ELSE 0 END) as occasional_users,
-          SUM(CASE WHEN total_activity >= 1 AND total_activity < 3 THEN 1 ELSE 0 END) as low_activity_users
-        FROM UserWeeklyTotals
-        GROUP BY year, week
-      )
-      SELECT 
-        wa.*,
-        DATEADD(WEEK, wa.week - 1, DATEFROMPARTS(wa.year, 1, 1)) as week_start
-      FROM WeeklyAggregates wa
-      ORDER BY year, week
-    `);
-  
-  return result.recordset.map((row) => ({
-    year: row.year,
-    week: row.week,
-    week_start: row.week_start,
-    total_users: row.total_users,
-    total_posts: row.total_posts,
-    total_comments: row.total_comments,
-    ultra_active_users: row.ultra_active_users,
-    very_active_users: row.very_active_users,
-    active_users: row.active_users,
-    occasional_users: row.occasional_users,
-    low_activity_users: row.low_activity_users,
-  }));
-}
-
-function saveToDatabase(db: Database, stats: WeeklyStats[]) {
+  const insertMany = db.transaction(() => {
+    for (const row of stats) {
+      const key = periodKey(granularity, row.period_start);
+      insert.run({
+        ...Object.fromEntries(Object.entries(key).map(([k, v]) => [`$${k}`, v])),
+        $total_users: row.total_users,
+        $total_posts: row.total_posts,
+        $total_comments: row.total_comments,
+      });
+      
+      const periodStart = formatDay(row.period_start);
+      clearTiers.run({ $granularity: granularity, $period_start: periodStart });
+      for (const segment of SEGMENTS) {
+        for (const [tier, users] of Object.entries(row.tiers[segment])) {
+          insertTier.run({
+            $granularity: granularity,
+            $period_start: periodStart,
+            $segment: segment,
+            $tier: tier,
+            $users: users,
+          });
+        }
+      }
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved ${stats.length} ${granularity}s to ${table}`);
+}
+
+
+function saveGrowth(db: Database, growth: WeeklyGrowth[]) {
   const insert = db.prepare(`
-    INSERT OR REPLACE INTO weekly_stats (
-      year, week, week_start, total_users, total_posts, total_comments,
-      ultra_active_users, very_active_users, active_users, occasional_users, low_activity_users
+    INSERT OR REPLACE INTO weekly_growth (
+      week_start, year, week, new_users, retained_users, resurrected_users, churned_users
     ) VALUES (
-      $year, $week, $week_start, $total_users, $total_posts, $total_comments,
-      $ultra_active_users, $very_active_users, $active_users, $occasional_users, $low_activity_users
+      $week_start, $year, $week, $new_users, $retained_users, $resurrected_users, $churned_users
     )
   `);
   
   const insertMany = db.transaction(() => {
+    for (const row of growth) {
+      const { year, week } = weekNumber(row.week_start);
+      insert.run({
+        $week_start: formatDay(row.week_start),
+        $year: year,
+        $week: week,
+        $new_users: row.new_users,
+        $retained_users: row.retained_users,
+        $resurrected_users: row.resurrected_users,
+        $churned_users: row.churned_users,
+      });
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved ${growth.length} weeks to weekly_growth`);
+}
+
+
+function saveVotes(db: Database, votes: WeeklyVotes[]) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO weekly_votes (
+      week_start, year, week, unique_voters, total_votes, social_active_users
+    ) VALUES (
+      $week_start, $year, $week, $unique_voters, $total_votes, $social_active_users
+    )
+  `);
+  
+  const insertMany = db.transaction(() => {
+    for (const row of votes) {
+      const { year, week } = weekNumber(row.week_start);
+      insert.run({
+        $week_start: formatDay(row.week_start),
+        $year: year,
+        $week: week,
+        $unique_voters: row.unique_voters,
+        $total_votes: row.total_votes,
+        $social_active_users: row.social_active_users,
+      });
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved ${votes.length} weeks to weekly_votes`);
+}
+
+
+function saveLeaderboards(db: Database, entries: LeaderboardEntry[]) {
+  // A refetched week replaces its whole list, which may have gotten shorter
+  const clear = db.prepare(`DELETE FROM weekly_leaderboards WHERE week_start = $week_start`);
+  const insert = db.prepare(`
+    INSERT INTO weekly_leaderboards (
+      week_start, board, rank, name, posts, comments
+    ) VALUES (
+      $week_start, $board, $rank, $name, $posts, $comments
+    )
+  `);
+  
+  const weeks = new Set(entries.map((e) => formatDay(e.week_start)));
+  
+  const insertMany = db.transaction(() => {
+    for (const week of weeks) {
+      clear.run({ $week_start: week });
+    }
+    for (const row of entries) {
+      insert.run({
+        $week_start: formatDay(row.week_start),
+        $board: row.board,
+        $rank: row.rank,
+        $name: row.name,
+        $posts: row.posts,
+        $comments: row.comments,
+      });
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved leaderboards for ${weeks.size} weeks to weekly_leaderboards`);
+}
+
+
+function saveAppStats(db: Database, stats: AppWeeklyStats[]) {
+  // Apps without activity in a refetched week must not keep old counts
+  const clear = db.prepare(`DELETE FROM weekly_app_stats WHERE week_start = $week_start`);
+  const insert = db.prepare(`
+    INSERT INTO weekly_app_stats (
+      week_start, app, year, week, total_users, total_posts, total_comments
+    ) VALUES (
+      $week_start, $app, $year, $week, $total_users, $total_posts, $total_comments
+    )
+  `);
+  
+  const weeks = new Set(stats.map((s) => formatDay(s.week_start)));
+  
+  const insertMany = db.transaction(() => {
+    for (const week of weeks) {
+      clear.run({ $week_start: week });
+    }
     for (const row of stats) {
+      const { year, week } = weekNumber(row.week_start);
       insert.run({
-        $year: row.year,
-        $week: row.week,
-        $week_start: row.week_start.toISOString().split("T")[0] ?? "",
+        $week_start: formatDay(row.week_start),
+        $app: row.app,
+        $year: year,
+        $week: week,
         $total_users: row.total_users,
         $total_posts: row.total_posts,
         $total_comments: row.total_comments,
-        $ultra_active_users: row.ultra_active_users,
-        $very_active_users: row.very_active_users,
+      });
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved ${stats.length} app-weeks to weekly_app_stats`);
+}
+
+
+function saveCommunityStats(db: Database, stats: CommunityWeeklyStats[]) {
+  // Communities without activity in a refetched week must not keep old counts
+  const clear = db.prepare(`DELETE FROM community_weekly_stats WHERE week_start = $week_start`);
+  const insert = db.prepare(`
+    INSERT INTO community_weekly_stats (
+      community, week_start, year, week, total_users, total_posts, total_comments
+    ) VALUES (
+      $community, $week_start, $year, $week, $total_users, $total_posts, $total_comments
+    )
+  `);
+  
+  const weeks = new Set(stats.map((s) => formatDay(s.week_start)));
+  
+  const insertMany = db.transaction(() => {
+    for (const week of weeks) {
+      clear.run({ $week_start: week });
+    }
+    for (const row of stats) {
+      const { year, week } = weekNumber(row.week_start);
+      insert.run({
+        $community: row.community,
+        $week_start: formatDay(row.week_start),
+        $year: year,
+        $week: week,
+        $total_users: row.total_users,
+        $total_posts: row.total_posts,
+        $total_comments: row.total_comments,
+      });
+    }
+  });
+  
+  insertMany();
+  const communities = new Set(stats.map((s) => s.community));
+  console.log(`  Saved ${stats.length} community-weeks (${communities.size} communities) to community_weekly_stats`);
+}
+
+
+function saveCohorts(db: Database, cohorts: CohortActivity[]) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO cohort_retention (
+      cohort_month, active_month, months_since, active_users
+    ) VALUES (
+      $cohort_month, $active_month, $months_since, $active_users
+    )
+  `);
+  
+  const insertMany = db.transaction(() => {
+    for (const row of cohorts) {
+      const monthsSince = (row.active_month.getUTCFullYear() - row.cohort_month.getUTCFullYear()) * 12
+        + row.active_month.getUTCMonth() - row.cohort_month.getUTCMonth();
+      insert.run({
+        $cohort_month: formatDay(row.cohort_month),
+        $active_month: formatDay(row.active_month),
+        $months_since: monthsSince,
         $active_users: row.active_users,
-        $occasional_users: row.occasional_users,
-        $low_activity_users: row.low_activity_users,
       });
     }
   });
   
   insertMany();
-  console.log(`  Saved ${stats.length} weeks to database`);
+  console.log(`  Saved ${cohorts.length} cohort-months to cohort_retention`);
+}
+
+// Internal market prices are kept as coin series of price_history next to the
+// exchange prices, one per chain era (see eras.ts). HBD is treated as $1, so
+// price_usd is HBD per HIVE and volume_usd the HBD side.
+
+function saveInternalMarket(db: Database, days: InternalMarketDay[], source: string) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO price_history (
+      coin, date, price_usd, volume, volume_usd, source
+    ) VALUES (
+      $coin, $date, $price_usd, $volume, $volume_usd, $source
+    )
+  `);
+  
+  const insertMany = db.transaction(() => {
+    for (const day of days) {
+      const date = formatDay(day.date);
+      insert.run({
+        $coin: eraOn(date).internalCoin,
+        $date: date,
+        $price_usd: day.vwap,
+        $volume: day.hive_volume,
+        $volume_usd: day.hbd_volume,
+        $source: source,
+      });
+    }
+  });
+  
+  insertMany();
+  console.log(`  Saved ${days.length} internal market days (${days.reduce((sum, d) => sum + d.fills, 0).toLocaleString()} fills) to price_history`);
+}
+
+// Once every week since the rebuild start has been refetched, drop what is
+// left of the old week definition
+function finishRebuild(db: Database) {
+  db.exec(`DROP TABLE IF EXISTS weekly_stats_legacy`);
+  const weekday = { $weekday: WEEK_START_DAY % 7 };
+  const outdated = (column: string) => `CAST(strftime('%w', ${column}) AS INTEGER) != $weekday`;
+  
+  const { table, key } = PERIOD_TABLES.week;
+  const deleted = db.prepare(`DELETE FROM ${table} WHERE ${outdated(key)}`).run(weekday);
+  for (const derived of DERIVED_TABLES.week) {
+    db.prepare(`DELETE FROM ${derived.table} WHERE ${outdated(derived.key)}`).run(weekday);
+  }
+  db.prepare(`DELETE FROM tier_stats WHERE granularity = 'week' AND ${outdated("period_start")}`).run(weekday);
+  console.log(`Rebuild complete (removed ${deleted.changes} outdated weeks)\n`);
+}
+
+// A failed chunk is retried up to MAX_ATTEMPTS times in total, waiting
+// RETRY_BASE_DELAY_MS before the first retry and twice as long before each next one
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 15_000;
+
+async function withRetry<T>(description: string, attempt: (n: number) => Promise<T>): Promise<T> {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt(n);
+    } catch (err) {
+      if (n >= MAX_ATTEMPTS) throw err;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (n - 1);
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`  ${description} failed (attempt ${n}/${MAX_ATTEMPTS}): ${message}`);
+      console.warn(`  Retrying in ${delay / 1000}s...\n`);
+      await Bun.sleep(delay);
+    }
+  }
+}
+
+interface FetchChunk {
+  index: number;
+  window: FetchWindow;
+  status: "pending" | "running" | "done" | "failed";
+}
+
+interface FetchRun {
+  runId: number;
+  isRebuild: boolean;
+  chunks: FetchChunk[];
+}
+
+// Record a new run and its planned chunks before anything is fetched
+function startRun(db: Database, windows: FetchWindow[], isRebuild: boolean): FetchRun {
+  const { run_id } = db.prepare(`SELECT COALESCE(MAX(run_id), 0) + 1 as run_id FROM fetch_runs`)
+    .get() as { run_id: number };
+  const insert = db.prepare(`
+    INSERT INTO fetch_runs (run_id, chunk, granularity, window_from, window_to, label, rebuild)
+    VALUES ($run_id, $chunk, $granularity, $window_from, $window_to, $label, $rebuild)
+  `);
+  
+  db.transaction(() => {
+    windows.forEach((window, index) => {
+      insert.run({
+        $run_id: run_id,
+        $chunk: index,
+        $granularity: window.granularity,
+        $window_from: formatDay(window.from),
+        $window_to: formatDay(window.to),
+        $label: window.label,
+        $rebuild: isRebuild ? 1 : 0,
+      });
+    });
+  })();
+  
+  return {
+    runId: run_id,
+    isRebuild,
+    chunks: windows.map((window, index) => ({ index, window, status: "pending" })),
+  };
+}
+
+// The most recent run, if it stopped before all of its chunks were done
+function findResumableRun(db: Database): FetchRun | null {
+  const latest = db.prepare(`SELECT MAX(run_id) as run_id FROM fetch_runs`).get() as { run_id: number | null };
+  if (latest.run_id === null) return null;
+  
+  const rows = db.prepare(`
+    SELECT chunk, granularity, window_from, window_to, label, rebuild, status
+    FROM fetch_runs
+    WHERE run_id = $run_id
+    ORDER BY chunk
+  `).all({ $run_id: latest.run_id }) as Array<{
+    chunk: number;
+    granularity: Granularity;
+    window_from: string;
+    window_to: string;
+    label: string;
+    rebuild: number;
+    status: FetchChunk["status"];
+  }>;
+  if (rows.every((row) => row.status === "done")) return null;
+  
+  return {
+    runId: latest.run_id,
+    isRebuild: rows.some((row) => row.rebuild === 1),
+    chunks: rows.map((row) => ({
+      index: row.chunk,
+      window: {
+        granularity: row.granularity,
+        from: parseDay(row.window_from),
+        to: parseDay(row.window_to),
+        label: row.label,
+      },
+      status: row.status,
+    })),
+  };
+}
+
+function updateChunk(db: Database, run: FetchRun, chunk: FetchChunk, fields: {
+  status: FetchChunk["status"];
+  row_counts?: Record<string, number>;
+  duration_ms?: number;
+  error?: string;
+}) {
+  chunk.status = fields.status;
+  db.prepare(`
+    UPDATE fetch_runs SET
+      status = $status,
+      attempts = attempts + $attempt,
+      row_counts = COALESCE($row_counts, row_counts),
+      duration_ms = COALESCE($duration_ms, duration_ms),
+      error = $error,
+      finished_at = CASE WHEN $status IN ('done', 'failed') THEN datetime('now') END
+    WHERE run_id = $run_id AND chunk = $chunk
+  `).run({
+    $run_id: run.runId,
+    $chunk: chunk.index,
+    $status: fields.status,
+    $attempt: fields.status === "running" ? 1 : 0,
+    $row_counts: fields.row_counts ? JSON.stringify(fields.row_counts) : null,
+    $duration_ms: fields.duration_ms ?? null,
+    $error: fields.error ?? null,
+  });
+}
+
+// Fetch and save everything derived from one window. Every save replaces the
+// rows of the periods it covers, so a retried chunk can simply start over.
+// Returns the number of rows fetched per table.
+async function fetchChunk(db: Database, source: ChainDataSource, window: FetchWindow): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  
+  console.log(`Fetching data for ${window.label}...`);
+  const stats = await source.fetchPeriodStats(window);
+  counts[PERIOD_TABLES[window.granularity].table] = stats.length;
+  if (stats.length > 0) {
+    saveToDatabase(db, window.granularity, stats);
+    console.log(`  ${window.label}: ${stats.reduce((sum, s) => sum + s.total_users, 0).toLocaleString()} total user-${window.granularity}s, ${stats.reduce((sum, s) => sum + s.total_posts + s.total_comments, 0).toLocaleString()} total actions\n`);
+  } else {
+    console.log(`  ${window.label}: No data found\n`);
+  }
+  
+  if (window.granularity === "day") {
+    console.log(`Fetching internal market for ${window.label}...`);
+    const market = await source.fetchInternalMarket(window);
+    counts.price_history = market.length;
+    if (market.length > 0) {
+      saveInternalMarket(db, market, source.name);
+    }
+  }
+  
+  if (window.granularity === "week") {
+    console.log(`Fetching growth accounting for ${window.label}...`);
+    const growth = await source.fetchWeeklyGrowth(window);
+    counts.weekly_growth = growth.length;
+    if (growth.length > 0) {
+      saveGrowth(db, growth);
+    }
+    
+    console.log(`Fetching votes for ${window.label}...`);
+    const votes = await source.fetchWeeklyVotes(window);
+    counts.weekly_votes = votes.length;
+    if (votes.length > 0) {
+      saveVotes(db, votes);
+    }
+    
+    console.log(`Fetching leaderboards for ${window.label}...`);
+    const leaderboards = await source.fetchLeaderboards(window);
+    counts.weekly_leaderboards = leaderboards.length;
+    if (leaderboards.length > 0) {
+      saveLeaderboards(db, leaderboards);
+    }
+    
+    console.log(`Fetching community stats for ${window.label}...`);
+    const communityStats = await source.fetchCommunityStats(window);
+    counts.community_weekly_stats = communityStats.length;
+    if (communityStats.length > 0) {
+      saveCommunityStats(db, communityStats);
+    }
+    
+    console.log(`Fetching app stats for ${window.label}...`);
+    const appStats = await source.fetchAppStats(window);
+    counts.weekly_app_stats = appStats.length;
+    if (appStats.length > 0) {
+      saveAppStats(db, appStats);
+    }
+  }
+  
+  if (window.granularity === "month") {
+    console.log(`Fetching cohort activity for ${window.label}...`);
+    const cohorts = await source.fetchCohortActivity(window);
+    counts.cohort_retention = cohorts.length;
+    if (cohorts.length > 0) {
+      saveCohorts(db, cohorts);
+    }
+  }
+  
+  return counts;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Chunks fetched at the same time, each on its own HiveSQL connection
+const DEFAULT_CONCURRENCY = 4;
+
+// Hive started in March 2020 (fork from Steem)
+// But HiveSQL has historical Steem data going back to 2016
+const FIRST_YEAR = 2016;
+
+interface CliOptions {
+  full: boolean;
+  from?: string;
+  to?: string;
+  weeks: number;
+  concurrency: number;
+  // Continue the chunks of the last run that didn't finish
+  resume: boolean;
+  // Local Comments fixture (.db or .json) to aggregate instead of HiveSQL
+  fixture?: string;
+  db: string;
+}
+
+function parseCliOptions(): CliOptions {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      full: { type: "boolean", default: false },
+      from: { type: "string" },
+      to: { type: "string" },
+      weeks: { type: "string" },
+      concurrency: { type: "string" },
+      resume: { type: "boolean", default: false },
+      fixture: { type: "string" },
+      db: { type: "string", default: DEFAULT_DB_PATH },
+    },
+  });
+  
+  const weeks = values.weeks !== undefined ? parseInt(values.weeks) : DEFAULT_REFRESH_WEEKS;
+  if (isNaN(weeks) || weeks < 1) {
+    throw new Error(`Invalid --weeks value "${values.weeks}" (expected a positive integer)`);
+  }
+  const concurrency = values.concurrency !== undefined ? parseInt(values.concurrency) : DEFAULT_CONCURRENCY;
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency value "${values.concurrency}" (expected a positive integer)`);
+  }
+  if (values.resume && (values.full || values.from || values.to || values.weeks)) {
+    throw new Error("--resume continues the last run as planned and can't be combined with --full, --from, --to or --weeks");
+  }
+  
+  return {
+    full: values.full ?? false,
+    from: values.from,
+    to: values.to,
+    weeks,
+    concurrency,
+    resume: values.resume ?? false,
+    fixture: values.fixture,
+    db: values.db ?? DEFAULT_DB_PATH,
+  };
+}
+
+function latestPeriodStart(db: Database, granularity: Granularity): Date | null {
+  const { table, key } = PERIOD_TABLES[granularity];
+  const row = db.prepare(`SELECT MAX(${key}) as latest FROM ${table}`).get() as { latest: string | null };
+  return row.latest ? parseDay(row.latest) : null;
+}
+
+// A granularity's windows also feed its derived tables, so whichever table
+// lags behind decides where it resumes (null if any of them is empty)
+function latestFetched(db: Database, granularity: Granularity): Date | null {
+  const tables: Array<{ table: string; key: string; where?: string }> = [PERIOD_TABLES[granularity], ...DERIVED_TABLES[granularity]];
+  const row = db.prepare(`
+    SELECT CASE WHEN COUNT(latest) = ${tables.length} THEN MIN(latest) END as latest FROM (
+      ${tables.map(({ table, key, where }) => `SELECT MAX(${key}) as latest FROM ${table}${where ? ` WHERE ${where}` : ""}`).join(" UNION ALL ")}
+    )
+  `).get() as { latest: string | null };
+  return row.latest ? parseDay(row.latest) : null;
+}
+
+// Work out which date range this run should (re)fetch:
+// - --full: everything since FIRST_YEAR
+// - --from/--to: an explicit backfill range (either bound may be omitted)
+// - default: incremental refresh of the last `weeks` stored weeks up to now,
+//   or a rebuild from `rebuildFrom` if the stored weeks are outdated.
+//   Days and months refresh the same span, widened to whole periods, and
+//   catch up on their own if their table lags behind weekly_stats.
+function planWindows(db: Database, options: CliOptions, rebuildFrom: Date | null): FetchWindow[] {
+  const now = new Date();
+  const fullFrom = firstWeekStart(FIRST_YEAR);
+  const forEachGranularity = (from: (g: Granularity) => Date, to: Date) =>
+    GRANULARITIES.flatMap((g) => buildWindows(g, from(g), to));
+  
+  if (options.full) {
+    console.log("Mode: full refetch\n");
+    return forEachGranularity(() => fullFrom, now);
+  }
+  
+  if (options.from || options.to) {
+    const from = options.from ? parseBoundary(options.from, false) : fullFrom;
+    const to = options.to ? parseBoundary(options.to, true) : now;
+    if (from >= to) {
+      throw new Error(`Empty range: --from ${options.from} is not before --to ${options.to}`);
+    }
+    console.log(`Mode: backfill ${formatDay(from)} to ${formatDay(addDays(to, -1))}\n`);
+    return forEachGranularity(() => from, to);
+  }
+  
+  const latestWeek = latestPeriodStart(db, "week");
+  if (!latestWeek) {
+    console.log("Mode: full refetch (database is empty)\n");
+    return forEachGranularity(() => fullFrom, now);
+  }
+  
+  const refreshFrom = addDays(latestWeek, -7 * (options.weeks - 1));
+  if (rebuildFrom) {
+    console.log(`Mode: rebuilding weeks since ${formatDay(rebuildFrom)} (week definition changed)\n`);
+  } else {
+    console.log(`Mode: incremental (last stored week ${formatDay(latestWeek)}, refreshing ${options.weeks} weeks)\n`);
+  }
+  
+  return forEachGranularity((g) => {
+    if (g === "week" && rebuildFrom) return rebuildFrom;
+    const latest = latestFetched(db, g);
+    if (!latest) return fullFrom;
+    return latest < refreshFrom ? latest : refreshFrom;
+  }, now);
 }
 
 async function main() {
-  const dbPath = "hive-stats.db";
-  const db = initDatabase(dbPath);
+  const options = parseCliOptions();
+  const db = openDatabase(options.db);
   
-  console.log("Connecting to HiveSQL...");
-  const pool = await sql.connect(config);
-  console.log("Connected!\n");
+  let run: FetchRun;
+  if (options.resume) {
+    const resumable = findResumableRun(db);
+    if (!resumable) {
+      console.log("Nothing to resume: the last run completed");
+      db.close();
+      return;
+    }
+    run = resumable;
+    const left = run.chunks.filter((chunk) => chunk.status !== "done").length;
+    console.log(`Mode: resuming run ${run.runId} (${left} of ${run.chunks.length} chunks left)\n`);
+  } else {
+    const rebuildFrom = findRebuildStart(db);
+    const windows = planWindows(db, options, rebuildFrom);
+    const isRebuild = rebuildFrom !== null && (options.full || !(options.from || options.to));
+    run = startRun(db, windows, isRebuild);
+  }
   
-  // Hive started in March 2020 (fork from Steem)
-  // But HiveSQL has historical Steem data going back to 2016
-  const startYear = 2016;
-  const endYear = new Date().getFullYear();
+  let source: ChainDataSource;
+  if (options.fixture) {
+    console.log(`Loading fixture ${options.fixture}...`);
+    source = await openFixture(options.fixture);
+    console.log("Loaded!\n");
+  } else {
+    console.log("Connecting to HiveSQL...");
+    source = await withRetry("Connecting to HiveSQL", () => connectHiveSql(options.concurrency));
+    console.log("Connected!\n");
+  }
   
   try {
-    for (let year = startYear; year <= endYear; year++) {
-      const stats = await fetchWeeklyStats(pool, year);
-      if (stats.length > 0) {
-        saveToDatabase(db, stats);
-        console.log(`  ${year}: ${stats.reduce((sum, s) => sum + s.total_users, 0).toLocaleString()} total user-weeks, ${stats.reduce((sum, s) => sum + s.total_posts + s.total_comments, 0).toLocaleString()} total actions\n`);
-      } else {
-        console.log(`  ${year}: No data found\n`);
+    const runStarted = performance.now();
+    const queue = run.chunks.filter((chunk) => chunk.status !== "done");
+    const total = queue.length;
+    const failures: Error[] = [];
+    let done = 0;
+    
+    // Each worker takes the next chunk until the queue is empty. After a chunk
+    // has failed for good no new ones are started, but running ones finish.
+    const worker = async () => {
+      for (let chunk = queue.shift(); chunk && failures.length === 0; chunk = queue.shift()) {
+        const current = chunk;
+        let duration = 0;
+        try {
+          const counts = await withRetry(current.window.label, async () => {
+            updateChunk(db, run, current, { status: "running" });
+            const started = performance.now();
+            const result = await fetchChunk(db, source, current.window);
+            duration = performance.now() - started;
+            return result;
+          });
+          updateChunk(db, run, current, { status: "done", row_counts: counts, duration_ms: Math.round(duration) });
+          
+          done++;
+          const rows = Object.values(counts).reduce((sum, n) => sum + n, 0);
+          const elapsed = performance.now() - runStarted;
+          const eta = done < total ? `, ETA ${formatDuration((elapsed / done) * (total - done))}` : "";
+          console.log(`  [${done}/${total}] ${current.window.label} done in ${formatDuration(duration)} (${rows.toLocaleString()} rows${eta})\n`);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          updateChunk(db, run, current, { status: "failed", error: message });
+          failures.push(new Error(`Run ${run.runId} stopped at ${current.window.label} after ${MAX_ATTEMPTS} attempts: ${message}\nContinue it with --resume`));
+        }
       }
+    };
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, total) }, worker));
+    if (failures[0]) throw failures[0];
+    
+    console.log(`Run ${run.runId} finished in ${formatDuration(performance.now() - runStarted)}`);
+    
+    if (run.isRebuild) {
+      finishRebuild(db);
     }
     
     // Print summary
@@ -220,7 +861,7 @@ async function main() {
     }
     
     const summary = db.prepare(`
-      SELECT 
+      SELECT
         MIN(year) as first_year,
         MAX(year) as last_year,
         COUNT(*) as total_weeks,
@@ -230,15 +871,25 @@ async function main() {
       FROM weekly_stats
     `).get() as SummaryRow;
     
+    const periodCounts = db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM daily_stats) as total_days,
+        (SELECT COUNT(*) FROM monthly_stats) as total_months,
+        (SELECT COALESCE(SUM(total_votes), 0) FROM weekly_votes) as total_votes
+    `).get() as { total_days: number; total_months: number; total_votes: number };
+    
     console.log("\n=== Summary ===");
     console.log(`Years: ${summary.first_year} - ${summary.last_year}`);
     console.log(`Total weeks: ${summary.total_weeks}`);
+    console.log(`Total days: ${periodCounts.total_days}`);
+    console.log(`Total months: ${periodCounts.total_months}`);
     console.log(`Total user-weeks: ${summary.total_user_weeks.toLocaleString()}`);
     console.log(`Total posts: ${summary.total_posts.toLocaleString()}`);
     console.log(`Total comments: ${summary.total_comments.toLocaleString()}`);
-    
+    console.log(`Total votes: ${periodCounts.total_votes.toLocaleString()}`);
+  
   } finally {
-    await pool.close();
+    await source.close();
     db.close();
     console.log("\nDone!");
   }
@@ -0,0 +1,382 @@
+// ChainDataSource over a local fixture, for developing the aggregations
+// without HiveSQL credentials. It computes the same numbers as the T-SQL in
+// hivesql-source.ts, in memory, so results are deterministic for a fixture.
+//
+// A fixture is a SQLite database or a JSON file with HiveSQL-shaped rows:
+//   Comments: author, parent_author, category, created, json_metadata
+//   TxVotes (optional): voter, timestamp
+//   VOFillOrders (optional): timestamp, current_pays, current_pays_symbol,
+//     open_pays, open_pays_symbol
+// JSON fixtures look like {"Comments": [...], "TxVotes": [...]}. Timestamps
+// are UTC, either "YYYY-MM-DD HH:MM:SS" or ISO-8601.
+
+import { Database } from "bun:sqlite";
+import { TIERS, emptySegmentTierCounts, type Segment } from "./tiers";
+import { addDays, formatDay, parseDay, startOfPeriod, startOfWeek } from "./periods";
+import {
+  APP_ALIASES,
+  LEADERBOARD_SIZE,
+  type AppWeeklyStats,
+  type ChainDataSource,
+  type CohortActivity,
+  type CommunityWeeklyStats,
+  type FetchWindow,
+  type InternalMarketDay,
+  type LeaderboardEntry,
+  type PeriodStats,
+  type WeeklyGrowth,
+  type WeeklyVotes,
+} from "./chain-data-source";
+
+interface FixtureComment {
+  author: string;
+  parent_author: string;
+  category: string;
+  created: Date;
+  json_metadata: string;
+}
+
+interface FixtureVote {
+  voter: string;
+  timestamp: Date;
+}
+
+// One fill_order, reduced to what each side paid
+interface FixtureFill {
+  timestamp: Date;
+  hive: number;
+  hbd: number;
+}
+
+type RawRow = Record<string, unknown>;
+
+function parseTimestamp(value: unknown): Date {
+  const text = String(value ?? "").trim().replace(" ", "T");
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? parseDay(text)
+    : new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid fixture timestamp "${value}"`);
+  }
+  return date;
+}
+
+async function readFixtureRows(path: string): Promise<{ comments: RawRow[]; votes: RawRow[]; fills: RawRow[] }> {
+  if (path.endsWith(".json")) {
+    const data = await Bun.file(path).json() as { Comments?: RawRow[]; TxVotes?: RawRow[]; VOFillOrders?: RawRow[] };
+    if (!Array.isArray(data.Comments)) {
+      throw new Error(`Fixture ${path} has no "Comments" array`);
+    }
+    return { comments: data.Comments, votes: data.TxVotes ?? [], fills: data.VOFillOrders ?? [] };
+  }
+  
+  const db = new Database(path, { readonly: true });
+  try {
+    const hasTable = (name: string) => db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?
+    `).get(name);
+    return {
+      comments: db.prepare(`
+        SELECT author, parent_author, category, created, json_metadata FROM Comments
+      `).all() as RawRow[],
+      votes: hasTable("TxVotes") ? db.prepare(`SELECT voter, timestamp FROM TxVotes`).all() as RawRow[] : [],
+      fills: hasTable("VOFillOrders") ? db.prepare(`
+        SELECT timestamp, current_pays, current_pays_symbol, open_pays, open_pays_symbol FROM VOFillOrders
+      `).all() as RawRow[] : [],
+    };
+  } finally {
+    db.close();
+  }
+}
+
+function byDate<T>(key: (row: T) => Date) {
+  return (a: T, b: T) => key(a).getTime() - key(b).getTime();
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function inWindow(date: Date, window: FetchWindow): boolean {
+  return date >= window.from && date < window.to;
+}
+
+// Same normalization as the app CASE expressions in hivesql-source.ts
+function appName(metadata: string): string {
+  let app: unknown;
+  try {
+    app = JSON.parse(metadata)?.app;
+  } catch {
+    app = undefined;
+  }
+  const raw = typeof app === "string" || typeof app === "number" ? String(app).trim().toLowerCase() : "";
+  if (raw === "" || raw.startsWith("/")) return "unknown";
+  const base = raw.split("/")[0] ?? raw;
+  return APP_ALIASES[base] ?? base;
+}
+
+export async function openFixture(path: string): Promise<ChainDataSource> {
+  const rows = await readFixtureRows(path);
+  const comments: FixtureComment[] = rows.comments.map((row) => ({
+    author: String(row.author),
+    parent_author: String(row.parent_author ?? ""),
+    category: String(row.category ?? ""),
+    created: parseTimestamp(row.created),
+    json_metadata: String(row.json_metadata ?? ""),
+  }));
+  const votes: FixtureVote[] = rows.votes.map((row) => ({
+    voter: String(row.voter),
+    timestamp: parseTimestamp(row.timestamp),
+  }));
+  const fills: FixtureFill[] = rows.fills.map((row) => {
+    const paysHbd = ["HBD", "SBD"].includes(String(row.current_pays_symbol));
+    return {
+      timestamp: parseTimestamp(row.timestamp),
+      hive: Number(paysHbd ? row.open_pays : row.current_pays),
+      hbd: Number(paysHbd ? row.current_pays : row.open_pays),
+    };
+  });
+  
+  // First post or comment ever per author, for growth and cohorts
+  const firstActivity = new Map<string, Date>();
+  for (const c of comments) {
+    const first = firstActivity.get(c.author);
+    if (!first || c.created < first) firstActivity.set(c.author, c.created);
+  }
+  
+  const windowComments = (window: FetchWindow) => comments.filter((c) => inWindow(c.created, window));
+  
+  async function fetchPeriodStats(window: FetchWindow): Promise<PeriodStats[]> {
+    const users = new Map<string, { period: Date; posts: number; comments: number }>();
+    for (const c of windowComments(window)) {
+      const period = startOfPeriod(window.granularity, c.created);
+      const key = `${formatDay(period)} ${c.author}`;
+      const user = users.get(key) ?? { period, posts: 0, comments: 0 };
+      if (c.parent_author === "") user.posts++;
+      else user.comments++;
+      users.set(key, user);
+    }
+    
+    const periods = new Map<string, PeriodStats>();
+    for (const user of users.values()) {
+      const key = formatDay(user.period);
+      const stats = periods.get(key) ?? {
+        period_start: user.period,
+        total_users: 0,
+        total_posts: 0,
+        total_comments: 0,
+        tiers: emptySegmentTierCounts(),
+      };
+      stats.total_users++;
+      stats.total_posts += user.posts;
+      stats.total_comments += user.comments;
+      
+      // The last tier starts at 1, so every active user has one
+      const activity = user.posts + user.comments;
+      const tier = TIERS.find((t) => activity >= t.minActivity[window.granularity]);
+      const segments: Segment[] = ["all", user.posts > 0 ? "creators" : "commenters"];
+      if (tier) {
+        for (const segment of segments) {
+          stats.tiers[segment][tier.key] = (stats.tiers[segment][tier.key] ?? 0) + 1;
+        }
+      }
+      periods.set(key, stats);
+    }
+    
+    return [...periods.values()].sort(byDate((s) => s.period_start));
+  }
+  
+  async function fetchWeeklyGrowth(window: FetchWindow): Promise<WeeklyGrowth[]> {
+    // The week before the window is included so its first week has a predecessor
+    const userWeeks = new Map<string, Set<string>>();
+    const from = addDays(window.from, -7);
+    for (const c of comments) {
+      if (c.created < from || c.created >= window.to) continue;
+      const week = formatDay(startOfWeek(c.created));
+      userWeeks.set(week, (userWeeks.get(week) ?? new Set()).add(c.author));
+    }
+    
+    const growth: WeeklyGrowth[] = [];
+    for (const [week, authors] of userWeeks) {
+      const weekStart = parseDay(week);
+      if (weekStart < window.from) continue;
+      
+      const previous = userWeeks.get(formatDay(addDays(weekStart, -7))) ?? new Set<string>();
+      const row = { week_start: weekStart, new_users: 0, retained_users: 0, resurrected_users: 0, churned_users: 0 };
+      for (const author of authors) {
+        if (previous.has(author)) row.retained_users++;
+        else if ((firstActivity.get(author) ?? weekStart) < weekStart) row.resurrected_users++;
+        else row.new_users++;
+      }
+      for (const author of previous) {
+        if (!authors.has(author)) row.churned_users++;
+      }
+      growth.push(row);
+    }
+    
+    return growth.sort(byDate((g) => g.week_start));
+  }
+  
+  async function fetchWeeklyVotes(window: FetchWindow): Promise<WeeklyVotes[]> {
+    const voterWeeks = new Map<string, Map<string, number>>();
+    for (const v of votes) {
+      if (!inWindow(v.timestamp, window)) continue;
+      const week = formatDay(startOfWeek(v.timestamp));
+      const voters = voterWeeks.get(week) ?? new Map<string, number>();
+      voters.set(v.voter, (voters.get(v.voter) ?? 0) + 1);
+      voterWeeks.set(week, voters);
+    }
+    
+    const socialWeeks = new Map<string, Set<string>>();
+    for (const [week, voters] of voterWeeks) {
+      socialWeeks.set(week, new Set(voters.keys()));
+    }
+    for (const c of windowComments(window)) {
+      const week = formatDay(startOfWeek(c.created));
+      socialWeeks.set(week, (socialWeeks.get(week) ?? new Set()).add(c.author));
+    }
+    
+    return [...socialWeeks].map(([week, accounts]) => {
+      const voters = voterWeeks.get(week) ?? new Map<string, number>();
+      return {
+        week_start: parseDay(week),
+        unique_voters: voters.size,
+        total_votes: [...voters.values()].reduce((sum, n) => sum + n, 0),
+        social_active_users: accounts.size,
+      };
+    }).sort(byDate((v) => v.week_start));
+  }
+  
+  async function fetchLeaderboards(window: FetchWindow): Promise<LeaderboardEntry[]> {
+    type Counts = { name: string; posts: number; comments: number };
+    const authorWeeks = new Map<string, Map<string, Counts>>();
+    const categoryWeeks = new Map<string, Map<string, Counts>>();
+    const count = (weeks: Map<string, Map<string, Counts>>, week: string, name: string, isPost: boolean) => {
+      const names = weeks.get(week) ?? new Map<string, Counts>();
+      const counts = names.get(name) ?? { name, posts: 0, comments: 0 };
+      if (isPost) counts.posts++;
+      else counts.comments++;
+      weeks.set(week, names.set(name, counts));
+    };
+    for (const c of windowComments(window)) {
+      const week = formatDay(startOfWeek(c.created));
+      count(authorWeeks, week, c.author, c.parent_author === "");
+      if (c.category !== "") count(categoryWeeks, week, c.category, c.parent_author === "");
+    }
+    
+    // Ties are broken by name, like the ROW_NUMBER() ordering in HiveSQL
+    const top = (names: Map<string, Counts>, score: (c: Counts) => number) =>
+      [...names.values()]
+        .sort((a, b) => score(b) - score(a) || compareText(a.name, b.name))
+        .slice(0, LEADERBOARD_SIZE);
+    
+    const entries: LeaderboardEntry[] = [];
+    for (const [week, names] of authorWeeks) {
+      const week_start = parseDay(week);
+      top(names, (c) => c.posts).forEach((c, i) => {
+        if (c.posts > 0) entries.push({ week_start, board: "posts", rank: i + 1, ...c });
+      });
+      top(names, (c) => c.comments).forEach((c, i) => {
+        if (c.comments > 0) entries.push({ week_start, board: "comments", rank: i + 1, ...c });
+      });
+      top(names, (c) => c.posts + c.comments).forEach((c, i) => {
+        entries.push({ week_start, board: "total", rank: i + 1, ...c });
+      });
+    }
+    for (const [week, names] of categoryWeeks) {
+      top(names, (c) => c.posts + c.comments).forEach((c, i) => {
+        entries.push({ week_start: parseDay(week), board: "communities", rank: i + 1, ...c });
+      });
+    }
+    
+    return entries;
+  }
+  
+  // Per-week distinct authors and content counts of whatever `group` returns
+  // for each comment (null skips it)
+  function groupWeekly(window: FetchWindow, group: (c: FixtureComment) => string | null) {
+    const groups = new Map<string, { name: string; week_start: Date; authors: Set<string>; posts: number; comments: number }>();
+    for (const c of windowComments(window)) {
+      const name = group(c);
+      if (name === null) continue;
+      const week_start = startOfWeek(c.created);
+      const key = `${formatDay(week_start)} ${name}`;
+      const row = groups.get(key) ?? { name, week_start, authors: new Set<string>(), posts: 0, comments: 0 };
+      row.authors.add(c.author);
+      if (c.parent_author === "") row.posts++;
+      else row.comments++;
+      groups.set(key, row);
+    }
+    return [...groups.values()]
+      .sort((a, b) => byDate<typeof a>((r) => r.week_start)(a, b) || compareText(a.name, b.name))
+      .map((row) => ({
+        name: row.name,
+        week_start: row.week_start,
+        total_users: row.authors.size,
+        total_posts: row.posts,
+        total_comments: row.comments,
+      }));
+  }
+  
+  async function fetchCommunityStats(window: FetchWindow): Promise<CommunityWeeklyStats[]> {
+    return groupWeekly(window, (c) => (/^hive-\d/i.test(c.category) ? c.category : null))
+      .map(({ name, ...row }) => ({ community: name, ...row }));
+  }
+  
+  async function fetchAppStats(window: FetchWindow): Promise<AppWeeklyStats[]> {
+    return groupWeekly(window, (c) => appName(c.json_metadata))
+      .map(({ name, ...row }) => ({ app: name, ...row }));
+  }
+  
+  async function fetchCohortActivity(window: FetchWindow): Promise<CohortActivity[]> {
+    const monthlyActive = new Map<string, Set<string>>();
+    for (const c of windowComments(window)) {
+      const month = formatDay(startOfPeriod("month", c.created));
+      monthlyActive.set(month, (monthlyActive.get(month) ?? new Set()).add(c.author));
+    }
+    
+    const cohorts = new Map<string, CohortActivity>();
+    for (const [month, authors] of monthlyActive) {
+      for (const author of authors) {
+        const cohortMonth = startOfPeriod("month", firstActivity.get(author) ?? parseDay(month));
+        const key = `${formatDay(cohortMonth)} ${month}`;
+        const row = cohorts.get(key) ?? { cohort_month: cohortMonth, active_month: parseDay(month), active_users: 0 };
+        row.active_users++;
+        cohorts.set(key, row);
+      }
+    }
+    
+    return [...cohorts.values()].sort((a, b) =>
+      byDate<CohortActivity>((r) => r.cohort_month)(a, b) || byDate<CohortActivity>((r) => r.active_month)(a, b));
+  }
+  
+  async function fetchInternalMarket(window: FetchWindow): Promise<InternalMarketDay[]> {
+    const days = new Map<string, InternalMarketDay>();
+    for (const fill of fills) {
+      if (!inWindow(fill.timestamp, window) || !(fill.hive > 0 && fill.hbd > 0)) continue;
+      const date = formatDay(fill.timestamp);
+      const day = days.get(date) ?? { date: parseDay(date), vwap: 0, hive_volume: 0, hbd_volume: 0, fills: 0 };
+      day.hive_volume += fill.hive;
+      day.hbd_volume += fill.hbd;
+      day.fills++;
+      days.set(date, day);
+    }
+    
+    return [...days.values()]
+      .map((day) => ({ ...day, vwap: day.hbd_volume / day.hive_volume }))
+      .sort(byDate((day) => day.date));
+  }
+  
+  return {
+    name: `fixture ${path}`,
+    fetchPeriodStats,
+    fetchWeeklyGrowth,
+    fetchWeeklyVotes,
+    fetchLeaderboards,
+    fetchCommunityStats,
+    fetchAppStats,
+    fetchCohortActivity,
+    fetchInternalMarket,
+    close: async () => {},
+  };
+}
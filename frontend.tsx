@@ -1,5 +1,10 @@
 import React, { useState, useEffect, useMemo, type ChangeEvent } from "react";
 import { createRoot } from "react-dom/client";
+import { SEGMENTS, TIERS, emptySegmentTierCounts, tierRange, type Granularity, type Segment } from "./tiers";
+import { FORK_DATE } from "./eras";
+import { summarizeStats, type StatsInsights, type StatsSummary } from "./insights";
+import type { ExportFormat, ExportTableName } from "./exports";
+import { CORRELATION_TRANSFORMS, type CorrelationEstimate, type CorrelationTransform, type LagCorrelation } from "./correlation";
 import {
   ComposedChart,
   Line,
@@ -12,9 +17,13 @@ import {
   Legend,
   ResponsiveContainer,
   BarChart,
+  AreaChart,
   PieChart,
   Pie,
   Cell,
+  Brush,
+  ReferenceLine,
+  ErrorBar,
 } from "recharts";
 import {
   Activity,
@@ -31,6 +40,12 @@ import {
   DollarSign,
   Layers,
   LineChart,
+  UserPlus,
+  Grid3x3,
+  ThumbsUp,
+  Trophy,
+  AppWindow,
+  Download,
 } from "lucide-react";
 
 // CSS is loaded via HTML link tag
@@ -42,69 +57,259 @@ interface WeeklyStats {
   total_users: number;
   total_posts: number;
   total_comments: number;
-  ultra_active_users: number;
-  very_active_users: number;
-  active_users: number;
-  occasional_users: number;
-  low_activity_users: number;
+  tiers: Record<Segment, Record<string, number>>;
   avg_price: number | null;
+  price_days: number;
+  internal_price: number | null;
+}
+
+interface DailyStats {
+  date: string;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  tiers: Record<Segment, Record<string, number>>;
+  avg_price: number | null;
+  internal_price: number | null;
+}
+
+interface MonthlyStats {
+  month_start: string;
+  year: number;
+  month: number;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  tiers: Record<Segment, Record<string, number>>;
+  avg_price: number | null;
+  internal_price: number | null;
+  avg_daily_users: number | null;
+  stickiness: number | null;
+}
+
+interface WeeklyGrowth {
+  week_start: string;
+  year: number;
+  week: number;
+  new_users: number;
+  retained_users: number;
+  resurrected_users: number;
+  churned_users: number;
+}
+
+interface WeeklyVotes {
+  week_start: string;
+  year: number;
+  week: number;
+  unique_voters: number;
+  total_votes: number;
+  social_active_users: number;
+}
+
+// Weekly users and content per posting app; apps beyond the top few are
+// summed as "other"
+interface AppActivity {
+  apps: string[];
+  weeks: Array<{
+    week_start: string;
+    year: number;
+    week: number;
+    users: Record<string, number>;
+    content: Record<string, number>;
+  }>;
+}
+
+// Weekly activity within one community (hive-NNNNNN category)
+interface CommunityWeeklyStats {
+  week_start: string;
+  year: number;
+  week: number;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+}
+
+interface CommunitySummary {
+  id: string;
+  userWeeks: number;
+  totalPosts: number;
+  totalComments: number;
+  lastWeek: string;
+}
+
+type LeaderboardName = "posts" | "comments" | "total" | "communities";
+
+interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  posts: number;
+  comments: number;
+  total: number;
+}
+
+type Leaderboards = { week: string | null } & Record<LeaderboardName, LeaderboardEntry[]>;
+
+interface CohortRow {
+  cohortMonth: string;
+  size: number;
+  retention: number[];
 }
 
 interface StatsData {
   weeklyStats: WeeklyStats[];
-  summary: {
-    totalWeeks: number;
-    totalUserWeeks: number;
-    totalPosts: number;
-    totalComments: number;
-    avgWeeklyUsers: number;
-    peakWeeklyUsers: number;
-    peakWeekDate: string;
-    lastCompleteWeekUsers: number;
-    lastCompleteWeekDate: string;
-  };
-  insights: {
-    yearOverYear: Array<{
-      year: number;
-      avgWeeklyUsers: number;
-      avgPrice: number | null;
-      totalPosts: number;
-      totalComments: number;
-      changePercent: number | null;
-    }>;
-    correlations: {
-      priceUserCorrelation: number;
-      description: string;
-    };
-    activityDistribution: {
-      ultraActive: number;
-      veryActive: number;
-      active: number;
-      occasional: number;
-      lowActivity: number;
-    };
-  };
+  dailyStats: DailyStats[];
+  monthlyStats: MonthlyStats[];
+  weeklyGrowth: WeeklyGrowth[];
+  weeklyVotes: WeeklyVotes[];
+  appActivity: AppActivity;
+  summary: StatsSummary;
+  insights: StatsInsights;
+  // Only present in the static export; the dev server serves /api/cohorts
+  cohorts?: CohortRow[];
+}
+
+// Tier names with their activity range, which is scaled to the period length
+function tierLabels(granularity: Granularity): Record<string, string> {
+  return Object.fromEntries(TIERS.map((tier) => [tier.key, `${tier.name} (${tierRange(tier, granularity)})`]));
+}
+
+
+// The insights compare the two lowest tiers (casual participants) with the
+// two highest (power users)
+const CASUAL_TIERS = TIERS.slice(-2);
+const POWER_TIERS = TIERS.slice(0, 2);
+
+function tierShare(distribution: Record<string, number>, tiers: typeof TIERS): number {
+  return tiers.reduce((sum, tier) => sum + (distribution[tier.key] ?? 0), 0);
+}
+
+// Activity range per period covered by a run of adjacent tiers, e.g. "1-9" or "20+"
+function tierGroupRange(tiers: typeof TIERS, granularity: Granularity): string {
+  const highest = tiers[0];
+  const lowest = tiers.at(-1);
+  if (!highest || !lowest) return "";
+  const above = TIERS[TIERS.indexOf(highest) - 1];
+  const min = lowest.minActivity[granularity];
+  return above ? `${min}-${above.minActivity[granularity] - 1}` : `${min}+`;
+}
+
+const SEGMENT_LABELS: Record<Segment, string> = {
+  all: "All activity",
+  creators: "Creators",
+  commenters: "Commenters",
+};
+
+const GRANULARITY_LABELS: Record<Granularity, { button: string; activeUsers: string; title: string }> = {
+  day: { button: "Day", activeUsers: "DAU", title: "Daily Active Users & Price" },
+  week: { button: "Week", activeUsers: "WAU", title: "Weekly Active Users & Price" },
+  month: { button: "Month", activeUsers: "MAU", title: "Monthly Active Users & Price" },
+};
+
+// Exchange prices are USD (CryptoCompare/CoinGecko); the internal market is
+// the on-chain HIVE/HBD order book, priced in HBD
+type PriceSource = "exchange" | "internal";
+
+const PRICE_SOURCES: Record<PriceSource, { button: string; dataKey: keyof ChartDataPoint; name: string; unit: string }> = {
+  exchange: { button: "Exchanges", dataKey: "avg_price", name: "Price (USD)", unit: "$" },
+  internal: { button: "Internal market", dataKey: "internal_price", name: "Internal market (HBD)", unit: "HBD " },
+};
+
+// Tables and formats of the "Download data" menu, see exports.ts
+const DOWNLOAD_TABLES: Record<ExportTableName, string> = {
+  weekly_stats: "Weekly stats",
+  prices: "Daily prices",
+  year_over_year: "Year over year",
+};
+const DOWNLOAD_FORMATS: Record<ExportFormat, string> = { csv: "CSV", ndjson: "NDJSON", parquet: "Parquet" };
+
+// What the correlation card correlates; log returns and changes remove the
+// long-term trend that dominates the raw levels
+const CORRELATION_LABELS: Record<CorrelationTransform, string> = {
+  logReturns: "Log returns",
+  changes: "% changes",
+  levels: "Levels",
+};
+
+// "0.39 (95% CI 0.29 to 0.49)", without the interval when there are too few pairs
+function formatEstimate(estimate: CorrelationEstimate): string {
+  const interval = estimate.low !== null && estimate.high !== null ? ` (95% CI ${estimate.low} to ${estimate.high})` : "";
+  return `${estimate.r}${interval}`;
+}
+
+// Lags count periods of the selected granularity
+function formatLag(lag: number, granularity: Granularity): string {
+  if (lag === 0) return `the same ${granularity}`;
+  const periods = `${Math.abs(lag)} ${granularity}${Math.abs(lag) === 1 ? "" : "s"}`;
+  return lag > 0 ? `price leading by ${periods}` : `users leading by ${periods}`;
+}
+
+function LagTooltip({ active, payload, granularity }: { active?: boolean; payload?: Array<{ payload: LagCorrelation }>; granularity: Granularity }) {
+  const lag = payload?.[0]?.payload;
+  if (!active || !lag) return null;
+  return (
+    <div className="custom-tooltip">
+      <p style={{ color: "var(--color-text-primary)", fontWeight: 600, marginBottom: "0.25rem" }}>{formatLag(lag.lag, granularity)}</p>
+      <p style={{ fontSize: "0.875rem", color: "var(--color-text-secondary)", margin: "0.125rem 0" }}>r = {formatEstimate(lag)}</p>
+      <p style={{ fontSize: "0.75rem", color: "var(--color-text-muted)", margin: "0.125rem 0" }}>{lag.n} pairs of {granularity}s</p>
+    </div>
+  );
 }
 
-const TIER_COLORS = {
-  ultra: "#ff3366",
-  very: "#ff6b35",
-  active: "#ffc107",
-  occasional: "#4ecdc4",
-  low: "#45b7d1",
+// Colours of the top apps in the "Activity by app" chart, in rank order
+const APP_COLORS = ["#e31337", "#7c3aed", "#00d395", "#ffc107", "#4ecdc4", "#ff6b35", "#ec4899", "#45b7d1"];
+const OTHER_APP_COLOR = "#606070";
+
+type AppMetric = "users" | "content";
+
+const LEADERBOARD_TITLES: Record<LeaderboardName, string> = {
+  total: "Most Active Authors",
+  posts: "Top Posters",
+  comments: "Top Commenters",
+  communities: "Top Communities",
 };
 
-const TIER_LABELS = {
-  ultra: "Ultra Active (50+)",
-  very: "Very Active (20-49)",
-  active: "Active (10-19)",
-  occasional: "Occasional (3-9)",
-  low: "Low (1-2)",
+// Value each board is ranked by
+const LEADERBOARD_VALUES: Record<LeaderboardName, (entry: LeaderboardEntry) => number> = {
+  total: (e) => e.total,
+  posts: (e) => e.posts,
+  comments: (e) => e.comments,
+  communities: (e) => e.total,
 };
 
+// Last day of the period starting on `periodStart`, used to find the week
+// whose leaderboards to show for a day, week or month
+function periodLastDay(periodStart: string, granularity: Granularity): string {
+  if (granularity !== "month") return periodStart;
+  const start = new Date(`${periodStart}T00:00:00Z`);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).toISOString().slice(0, 10);
+}
+
+// Date window of the selected years for summarizeStats: from the first to
+// the last day of their weeks, by the ISO week-numbering `year` the weekly
+// charts filter on. Falls back to calendar years when no week is selected.
+function yearRangeWindow(weeks: WeeklyStats[], [firstYear, lastYear]: [number, number]): { from: string; to: string } {
+  const selected = weeks.filter((w) => w.year >= firstYear && w.year <= lastYear);
+  const first = selected[0];
+  const last = selected.at(-1);
+  if (!first || !last) return { from: `${firstYear}-01-01`, to: `${lastYear}-12-31` };
+  const lastStart = new Date(`${last.week_start}T00:00:00Z`);
+  const lastDay = new Date(Date.UTC(lastStart.getUTCFullYear(), lastStart.getUTCMonth(), lastStart.getUTCDate() + 6));
+  return { from: first.week_start, to: lastDay.toISOString().slice(0, 10) };
+}
+
+// Months since first activity shown in the cohort heatmap
+const COHORT_MONTHS = 24;
+
+// Heatmap cell colour: square-root scale so the typical 5-30% retention
+// values stay distinguishable next to the 100% first month
+function cohortCellColor(percent: number): string {
+  const alpha = Math.sqrt(Math.min(percent, 100) / 100);
+  return `rgba(227, 19, 55, ${alpha.toFixed(2)})`;
+}
+
 function formatNumber(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  if (Math.abs(n) >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(n) >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
   return n.toLocaleString();
 }
 
@@ -113,6 +318,11 @@ function formatDate(dateStr: string): string {
   return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
 }
 
+function formatDay(dateStr: string): string {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
 interface StatCardProps {
   label: string;
   value: string | number;
@@ -163,18 +373,20 @@ interface TooltipPayloadItem {
 
 interface ChartDataPoint {
   year: number;
-  week: number;
+  period_start: string;
+  periodLabel: string;
   displayDate: string;
   total_users: number;
   total_posts: number;
   total_comments: number;
   total_content: number;
   avg_price: number | null;
-  ultra_active_users: number;
-  very_active_users: number;
-  active_users: number;
-  occasional_users: number;
-  low_activity_users: number;
+  internal_price: number | null;
+  tiers: Record<Segment, Record<string, number>>;
+  stickiness: number | null;
+  // Vote data is weekly only
+  unique_voters: number | null;
+  social_active_users: number | null;
 }
 
 interface CustomTooltipProps {
@@ -186,50 +398,72 @@ interface CustomTooltipProps {
 function CustomTooltip({ active, payload }: CustomTooltipProps) {
   if (!active || !payload?.length) return null;
 
-  // Get week info from first payload item's payload
+  // Get period info from first payload item's payload
   const dataPoint = (payload[0] as unknown as { payload: ChartDataPoint })?.payload;
-  const weekLabel = dataPoint ? `${dataPoint.year} Week ${dataPoint.week}` : "";
 
   return (
     <div className="custom-tooltip">
-      <p style={{ color: "var(--color-text-primary)", fontWeight: 600, marginBottom: "0.25rem" }}>{weekLabel}</p>
+      <p style={{ color: "var(--color-text-primary)", fontWeight: 600, marginBottom: "0.25rem" }}>{dataPoint?.periodLabel}</p>
       <p style={{ color: "var(--color-text-muted)", fontSize: "0.75rem", marginBottom: "0.5rem" }}>{dataPoint?.displayDate}</p>
       {payload.map((entry, i) => (
         <p key={i} style={{ fontSize: "0.875rem", color: entry.color, margin: "0.125rem 0" }}>
-          {entry.name}: {entry.dataKey === "avg_price" ? `$${entry.value?.toFixed(4)}` : formatNumber(entry.value)}
+          {entry.name}: {entry.dataKey === "avg_price"
+            ? `$${entry.value?.toFixed(4)}`
+            : entry.dataKey === "internal_price" ? `${entry.value?.toFixed(4)} HBD` : formatNumber(entry.value)}
         </p>
       ))}
+      {dataPoint?.social_active_users != null && (
+        <p style={{ fontSize: "0.875rem", color: "var(--color-text-secondary)", margin: "0.125rem 0" }}>
+          Any social action: {formatNumber(dataPoint.social_active_users)}
+        </p>
+      )}
+      {dataPoint?.stickiness != null && (
+        <p style={{ fontSize: "0.875rem", color: "var(--color-text-secondary)", margin: "0.125rem 0" }}>
+          DAU/MAU: {(dataPoint.stickiness * 100).toFixed(1)}%
+        </p>
+      )}
     </div>
   );
 }
 
 type ViewMode = "all" | "stacked" | "wau-price";
-type VisibleTiers = {
-  ultra: boolean;
-  very: boolean;
-  active: boolean;
-  occasional: boolean;
-  low: boolean;
-};
+type VisibleTiers = Record<string, boolean>;
 
-declare const window: Window & { HIVE_STATS_DATA_URL?: string };
+declare const window: Window & {
+  HIVE_STATS_DATA_URL?: string;
+  HIVE_STATS_LEADERBOARDS_URL?: string;
+  // Directory holding index.json and one <community>.json per community
+  HIVE_STATS_COMMUNITIES_URL?: string;
+  // Directory holding one <table>.<format> file per export
+  HIVE_STATS_EXPORTS_URL?: string;
+};
 
 function App() {
   const [data, setData] = useState<StatsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>("wau-price");
+  const [granularity, setGranularity] = useState<Granularity>("week");
+  const [segment, setSegment] = useState<Segment>("all");
   const [showPrice, setShowPrice] = useState(true);
+  const [priceSource, setPriceSource] = useState<PriceSource>("exchange");
+  const [correlationTransform, setCorrelationTransform] = useState<CorrelationTransform>("logReturns");
   const [showTotalWAU, setShowTotalWAU] = useState(true);
   const [showContent, setShowContent] = useState(false);
-  const [visibleTiers, setVisibleTiers] = useState<VisibleTiers>({
-    ultra: false,
-    very: false,
-    active: false,
-    occasional: false,
-    low: false,
-  });
+  const [showVoters, setShowVoters] = useState(false);
+  const [appMetric, setAppMetric] = useState<AppMetric>("users");
+  const [visibleTiers, setVisibleTiers] = useState<VisibleTiers>(
+    () => Object.fromEntries(TIERS.map((tier) => [tier.key, false]))
+  );
   const [yearRange, setYearRange] = useState<[number, number]>([2016, 2026]);
+  const [cohorts, setCohorts] = useState<CohortRow[]>([]);
+  const [communities, setCommunities] = useState<CommunitySummary[]>([]);
+  const [community, setCommunity] = useState<string | null>(null);
+  const [communityStats, setCommunityStats] = useState<CommunityWeeklyStats[] | null>(null);
+  const [brushEndIndex, setBrushEndIndex] = useState<number | null>(null);
+  const [leaderboards, setLeaderboards] = useState<Leaderboards | null>(null);
+  // Static builds ship every week's leaderboards in one file, keyed by week start
+  const [allLeaderboards, setAllLeaderboards] = useState<Record<string, Leaderboards> | null>(null);
 
   useEffect(() => {
     // Support both development (API) and production (static JSON)
@@ -247,35 +481,207 @@ function App() {
       });
   }, []);
 
-  const filteredData = useMemo(() => {
-    if (!data) return [];
-    return data.weeklyStats.filter(
-      (w) => w.year >= yearRange[0] && w.year <= yearRange[1]
-    );
-  }, [data, yearRange]);
+  useEffect(() => {
+    if (!data) return;
+    if (data.cohorts) {
+      setCohorts(data.cohorts);
+      return;
+    }
+    fetch("/api/cohorts")
+      .then((res) => res.json())
+      .then((d) => setCohorts((d as { cohorts: CohortRow[] }).cohorts))
+      .catch(() => setCohorts([]));
+  }, [data]);
 
-  const chartData = useMemo(() => {
-    return filteredData.map((w) => ({
+  useEffect(() => {
+    const baseUrl = window.HIVE_STATS_COMMUNITIES_URL;
+    fetch(baseUrl ? `${baseUrl}index.json` : "/api/communities")
+      .then((res) => res.json())
+      .then((d) => setCommunities((d as { communities: CommunitySummary[] }).communities))
+      .catch(() => setCommunities([]));
+  }, []);
+
+  useEffect(() => {
+    setCommunityStats(null);
+    if (!community) return;
+    const baseUrl = window.HIVE_STATS_COMMUNITIES_URL;
+    const controller = new AbortController();
+    fetch(baseUrl ? `${baseUrl}${community}.json` : `/api/communities/${community}/stats`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((d) => setCommunityStats((d as { weeklyStats: CommunityWeeklyStats[] }).weeklyStats))
+      .catch(() => {});
+    return () => controller.abort();
+  }, [community]);
+
+  // Community stats are weekly only
+  const selectCommunity = (id: string | null) => {
+    setCommunity(id);
+    if (id) setGranularity("week");
+  };
+
+  // Normalize the selected granularity's rows into chart points
+  const periodData = useMemo((): ChartDataPoint[] => {
+    if (!data) return [];
+    if (community) {
+      // Only activity totals exist per community; the price is network-wide
+      const priceByWeek = new Map(data.weeklyStats.map((w) => [w.week_start, w]));
+      return (communityStats ?? []).map((c) => ({
+        ...c,
+        period_start: c.week_start,
+        periodLabel: `${c.year} Week ${c.week}`,
+        displayDate: formatDate(c.week_start),
+        total_content: c.total_posts + c.total_comments,
+        avg_price: priceByWeek.get(c.week_start)?.avg_price ?? null,
+        internal_price: priceByWeek.get(c.week_start)?.internal_price ?? null,
+        tiers: emptySegmentTierCounts(),
+        stickiness: null,
+        unique_voters: null,
+        social_active_users: null,
+      }));
+    }
+    if (granularity === "day") {
+      return data.dailyStats.map((d) => ({
+        ...d,
+        year: parseInt(d.date.slice(0, 4)),
+        period_start: d.date,
+        periodLabel: formatDay(d.date),
+        displayDate: formatDate(d.date),
+        total_content: d.total_posts + d.total_comments,
+        stickiness: null,
+        unique_voters: null,
+        social_active_users: null,
+      }));
+    }
+    if (granularity === "month") {
+      return data.monthlyStats.map((m) => ({
+        ...m,
+        period_start: m.month_start,
+        periodLabel: formatDate(m.month_start),
+        displayDate: m.avg_daily_users !== null ? `Avg DAU ${formatNumber(m.avg_daily_users)}` : "",
+        total_content: m.total_posts + m.total_comments,
+        unique_voters: null,
+        social_active_users: null,
+      }));
+    }
+    const votesByWeek = new Map(data.weeklyVotes.map((v) => [v.week_start, v]));
+    return data.weeklyStats.map((w) => ({
       ...w,
-      date: `${w.year}-W${String(w.week).padStart(2, "0")}`,
+      period_start: w.week_start,
+      periodLabel: `${w.year} Week ${w.week}`,
       displayDate: formatDate(w.week_start),
       total_content: w.total_posts + w.total_comments,
+      stickiness: null,
+      unique_voters: votesByWeek.get(w.week_start)?.unique_voters ?? null,
+      social_active_users: votesByWeek.get(w.week_start)?.social_active_users ?? null,
     }));
-  }, [filteredData]);
+  }, [data, granularity, community, communityStats]);
 
-  const pieData = useMemo(() => {
+  const chartData = useMemo(() => {
+    return periodData.filter(
+      (p) => p.year >= yearRange[0] && p.year <= yearRange[1]
+    );
+  }, [periodData, yearRange]);
+
+  // The period containing the Hive fork, if it is charted; the x axis is
+  // categorical, so the marker sits on that period's start
+  const forkPeriod = useMemo(() => {
+    const index = chartData.findLastIndex((p) => p.period_start <= FORK_DATE);
+    return index >= 0 && index < chartData.length - 1 ? chartData[index]?.period_start ?? null : null;
+  }, [chartData]);
+
+  // The brush is recreated (and reset to the full range) when the data changes
+  useEffect(() => {
+    setBrushEndIndex(null);
+  }, [granularity, yearRange, community]);
+
+  // The leaderboard panel follows the last period of the brushed range
+  const leaderboardDate = useMemo(() => {
+    const end = chartData[Math.min(brushEndIndex ?? chartData.length - 1, chartData.length - 1)];
+    return end ? periodLastDay(end.period_start, granularity) : null;
+  }, [chartData, brushEndIndex, granularity]);
+
+  useEffect(() => {
+    const url = window.HIVE_STATS_LEADERBOARDS_URL;
+    if (!url) return;
+    fetch(url)
+      .then((res) => res.json())
+      .then((d) => setAllLeaderboards(d as Record<string, Leaderboards>))
+      .catch(() => setAllLeaderboards({}));
+  }, []);
+
+  useEffect(() => {
+    if (!leaderboardDate) return;
+    if (window.HIVE_STATS_LEADERBOARDS_URL) {
+      if (!allLeaderboards) return;
+      const week = Object.keys(allLeaderboards).filter((w) => w <= leaderboardDate).pop();
+      setLeaderboards(week ? allLeaderboards[week] ?? null : null);
+      return;
+    }
+    const controller = new AbortController();
+    fetch(`/api/leaderboards?week=${leaderboardDate}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((d) => setLeaderboards(d as Leaderboards))
+      .catch(() => {});
+    return () => controller.abort();
+  }, [leaderboardDate, allLeaderboards]);
+
+  const chartTierLabels = useMemo(() => tierLabels(granularity), [granularity]);
+  const activeUsersLabel = `Total ${GRANULARITY_LABELS[granularity].activeUsers}`;
+
+  // Churned users are drawn below the axis, as a negative bar
+  const growthData = useMemo(() => {
     if (!data) return [];
-    const dist = data.insights.activityDistribution;
-    return [
-      { name: TIER_LABELS.ultra, value: dist.ultraActive, color: TIER_COLORS.ultra },
-      { name: TIER_LABELS.very, value: dist.veryActive, color: TIER_COLORS.very },
-      { name: TIER_LABELS.active, value: dist.active, color: TIER_COLORS.active },
-      { name: TIER_LABELS.occasional, value: dist.occasional, color: TIER_COLORS.occasional },
-      { name: TIER_LABELS.low, value: dist.lowActivity, color: TIER_COLORS.low },
-    ];
-  }, [data]);
+    return data.weeklyGrowth
+      .filter((g) => g.year >= yearRange[0] && g.year <= yearRange[1])
+      .map((g) => ({
+        ...g,
+        periodLabel: `${g.year} Week ${g.week}`,
+        displayDate: formatDate(g.week_start),
+        churned_users: -g.churned_users,
+      }));
+  }, [data, yearRange]);
+
+  const appData = useMemo(() => {
+    if (!data) return [];
+    return data.appActivity.weeks
+      .filter((w) => w.year >= yearRange[0] && w.year <= yearRange[1])
+      .map((w) => ({
+        ...w,
+        periodLabel: `${w.year} Week ${w.week}`,
+        displayDate: formatDate(w.week_start),
+      }));
+  }, [data, yearRange]);
+
+  const filteredCohorts = useMemo(() => {
+    return cohorts.filter((c) => {
+      const year = parseInt(c.cohortMonth.slice(0, 4));
+      return year >= yearRange[0] && year <= yearRange[1];
+    });
+  }, [cohorts, yearRange]);
+
+  // The overview and insights follow the selected years. They are recomputed
+  // from the period series, which the static build ships in data.json too.
+  const view = useMemo(() => {
+    if (!data) return null;
+    return summarizeStats(data, yearRangeWindow(data.weeklyStats, yearRange), granularity, correlationTransform);
+  }, [data, yearRange, granularity, correlationTransform]);
 
-  const toggleTier = (tier: keyof VisibleTiers) => {
+  // Error bars span each lag's confidence interval
+  const lagData = useMemo(() => {
+    if (!view) return [];
+    return view.insights.correlations.lags.map((lag) => ({
+      ...lag,
+      interval: lag.low !== null && lag.high !== null ? [lag.r - lag.low, lag.high - lag.r] : [0, 0],
+    }));
+  }, [view]);
+
+  const pieData = useMemo(() => {
+    if (!view) return [];
+    const dist = view.insights.activityDistribution;
+    return TIERS.map((tier) => ({ name: chartTierLabels[tier.key] ?? tier.name, value: dist[tier.key] ?? 0, color: tier.color }));
+  }, [view, chartTierLabels]);
+
+  const toggleTier = (tier: string) => {
     setVisibleTiers((prev) => ({ ...prev, [tier]: !prev[tier] }));
   };
 
@@ -305,7 +711,7 @@ function App() {
     );
   }
 
-  if (error || !data) {
+  if (error || !data || !view) {
     return (
       <div style={{ minHeight: "100vh", display: "flex", alignItems: "center", justifyContent: "center" }}>
         <div style={{ textAlign: "center", color: "#f87171" }}>
@@ -342,6 +748,23 @@ function App() {
               <span style={{ fontSize: "0.875rem", color: "var(--color-text-muted)" }}>
                 Data: {data.weeklyStats[0]?.week_start.slice(0, 7)} → {data.weeklyStats[data.weeklyStats.length - 1]?.week_start.slice(0, 7)}
               </span>
+              <details className="download-menu">
+                <summary title="Download data">
+                  <Download size={16} /> Download data
+                </summary>
+                <div className="download-menu-list">
+                  {(Object.keys(DOWNLOAD_TABLES) as ExportTableName[]).map((table) => (
+                    <div key={table} className="download-menu-row">
+                      <span>{DOWNLOAD_TABLES[table]}</span>
+                      {(Object.keys(DOWNLOAD_FORMATS) as ExportFormat[]).map((format) => (
+                        <a key={format} href={`${window.HIVE_STATS_EXPORTS_URL ?? "/api/export/"}${table}.${format}`} download>
+                          {DOWNLOAD_FORMATS[format]}
+                        </a>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </details>
               <a 
                 href="https://github.com/cryptosharon/hive-stats" 
                 target="_blank" 
@@ -365,30 +788,37 @@ function App() {
           <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: "1rem" }}>
             <StatCard 
               label="Total Weeks" 
-              value={data.summary.totalWeeks} 
+              value={view.summary.totalWeeks} 
               subtext="of blockchain data" 
               delay={0}
               icon={<Calendar size={16} />}
             />
             <StatCard 
               label="Peak Weekly Users" 
-              value={data.summary.peakWeeklyUsers} 
-              subtext={formatDate(data.summary.peakWeekDate)} 
+              value={view.summary.peakWeeklyUsers ?? "—"} 
+              subtext={view.summary.peakWeekDate ? formatDate(view.summary.peakWeekDate) : "no weekly data"} 
               delay={100}
               icon={<TrendingUp size={16} />}
             />
             <StatCard 
               label="Last Complete Week" 
-              value={data.summary.lastCompleteWeekUsers} 
-              subtext={formatDate(data.summary.lastCompleteWeekDate)} 
+              value={view.summary.lastCompleteWeekUsers ?? "—"} 
+              subtext={view.summary.lastCompleteWeekDate ? formatDate(view.summary.lastCompleteWeekDate) : "no weekly data"} 
               delay={200}
               icon={<Users size={16} />}
             />
             <StatCard 
-              label="Total Posts" 
-              value={data.summary.totalPosts} 
-              subtext={`+ ${formatNumber(data.summary.totalComments)} comments`} 
+              label="DAU/MAU Stickiness" 
+              value={view.summary.lastCompleteMonthStickiness !== null ? `${(view.summary.lastCompleteMonthStickiness * 100).toFixed(1)}%` : "—"} 
+              subtext={view.summary.lastCompleteMonthDate ? `${formatDate(view.summary.lastCompleteMonthDate)} · ${formatNumber(view.summary.lastCompleteMonthUsers ?? 0)} MAU` : "no monthly data"} 
               delay={300}
+              icon={<Activity size={16} />}
+            />
+            <StatCard 
+              label="Total Posts" 
+              value={view.summary.totalPosts} 
+              subtext={`+ ${formatNumber(view.summary.totalComments)} comments`} 
+              delay={400}
               icon={<FileText size={16} />}
             />
           </div>
@@ -399,10 +829,38 @@ function App() {
           <div className="chart-card">
             <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", justifyContent: "space-between", gap: "1rem", marginBottom: "1.5rem" }}>
               <h2 style={{ fontSize: "1.25rem", fontWeight: 700, color: "var(--color-text-primary)", margin: 0, display: "flex", alignItems: "center", gap: "0.5rem" }}>
-                <LineChart size={20} /> Weekly Active Users & Price
+                <LineChart size={20} /> {community ? `${community} · ` : ""}{GRANULARITY_LABELS[granularity].title}
               </h2>
               
               <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+                {/* Community Selector */}
+                {communities.length > 0 && (
+                  <select
+                    className="community-select"
+                    value={community ?? ""}
+                    onChange={(e) => selectCommunity(e.target.value || null)}
+                  >
+                    <option value="">All of Hive</option>
+                    {communities.map((c) => (
+                      <option key={c.id} value={c.id}>{c.id}</option>
+                    ))}
+                  </select>
+                )}
+
+                {/* Granularity Toggle */}
+                <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4 }}>
+                  {(["day", "week", "month"] as Granularity[]).map((g) => (
+                    <button
+                      key={g}
+                      onClick={() => setGranularity(g)}
+                      disabled={community !== null && g !== "week"}
+                      className={`toggle-btn ${granularity === g ? "active" : ""}`}
+                    >
+                      {GRANULARITY_LABELS[g].button}
+                    </button>
+                  ))}
+                </div>
+
                 {/* View Mode Toggle */}
                 <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4 }}>
                   {(["wau-price", "stacked", "all"] as ViewMode[]).map((mode) => (
@@ -433,7 +891,7 @@ function App() {
                   display: "flex", alignItems: "center", gap: "0.375rem"
                 }}
               >
-                <Users size={14} /> Total WAU
+                <Users size={14} /> {activeUsersLabel}
               </button>
               <button
                 onClick={() => setShowPrice(!showPrice)}
@@ -450,6 +908,19 @@ function App() {
               >
                 <DollarSign size={14} /> Price
               </button>
+              {showPrice && (
+                <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4 }}>
+                  {(Object.keys(PRICE_SOURCES) as PriceSource[]).map((source) => (
+                    <button
+                      key={source}
+                      onClick={() => setPriceSource(source)}
+                      className={`toggle-btn ${priceSource === source ? "active" : ""}`}
+                    >
+                      {PRICE_SOURCES[source].button}
+                    </button>
+                  ))}
+                </div>
+              )}
               <button
                 onClick={() => setShowContent(!showContent)}
                 style={{
@@ -465,24 +936,53 @@ function App() {
               >
                 <MessageSquare size={14} /> Posts+Comments
               </button>
+              {granularity === "week" && (
+                <button
+                  onClick={() => setShowVoters(!showVoters)}
+                  style={{
+                    padding: "6px 12px",
+                    borderRadius: 8,
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    background: showVoters ? "rgba(163, 230, 53, 0.2)" : "var(--color-bg-elevated)",
+                    color: showVoters ? "#a3e635" : "var(--color-text-muted)",
+                    border: showVoters ? "1px solid rgba(163, 230, 53, 0.4)" : "1px solid transparent",
+                    display: "flex", alignItems: "center", gap: "0.375rem"
+                  }}
+                >
+                  <ThumbsUp size={14} /> Voters
+                </button>
+              )}
             </div>
 
             {/* Tier Toggles */}
             {viewMode !== "wau-price" && (
-              <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginBottom: "1rem" }}>
-                {(Object.keys(TIER_COLORS) as Array<keyof typeof TIER_COLORS>).map((tier) => (
+              <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.5rem", marginBottom: "1rem" }}>
+                {/* Segment Toggle: creators posted at least once in the period, commenters only commented */}
+                <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4 }}>
+                  {SEGMENTS.map((s) => (
+                    <button
+                      key={s}
+                      onClick={() => setSegment(s)}
+                      className={`toggle-btn ${segment === s ? "active" : ""}`}
+                    >
+                      {SEGMENT_LABELS[s]}
+                    </button>
+                  ))}
+                </div>
+                {TIERS.map(({ key: tier, color }) => (
                   <button
                     key={tier}
                     onClick={() => toggleTier(tier)}
                     className="tier-btn"
                     style={{
-                      background: visibleTiers[tier] ? `${TIER_COLORS[tier]}20` : "transparent",
-                      color: TIER_COLORS[tier],
-                      border: visibleTiers[tier] ? `1px solid ${TIER_COLORS[tier]}60` : "1px solid transparent",
+                      background: visibleTiers[tier] ? `${color}20` : "transparent",
+                      color,
+                      border: visibleTiers[tier] ? `1px solid ${color}60` : "1px solid transparent",
                       opacity: visibleTiers[tier] ? 1 : 0.4,
                     }}
                   >
-                    {TIER_LABELS[tier]}
+                    {chartTierLabels[tier]}
                   </button>
                 ))}
               </div>
@@ -517,26 +1017,12 @@ function App() {
               <ResponsiveContainer width="100%" height="100%">
                 <ComposedChart data={chartData} margin={{ top: 10, right: 60, left: 0, bottom: 0 }}>
                   <defs>
-                    <linearGradient id="ultraGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={TIER_COLORS.ultra} stopOpacity={0.8} />
-                      <stop offset="100%" stopColor={TIER_COLORS.ultra} stopOpacity={0.1} />
-                    </linearGradient>
-                    <linearGradient id="veryGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={TIER_COLORS.very} stopOpacity={0.8} />
-                      <stop offset="100%" stopColor={TIER_COLORS.very} stopOpacity={0.1} />
-                    </linearGradient>
-                    <linearGradient id="activeGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={TIER_COLORS.active} stopOpacity={0.8} />
-                      <stop offset="100%" stopColor={TIER_COLORS.active} stopOpacity={0.1} />
-                    </linearGradient>
-                    <linearGradient id="occasionalGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={TIER_COLORS.occasional} stopOpacity={0.8} />
-                      <stop offset="100%" stopColor={TIER_COLORS.occasional} stopOpacity={0.1} />
-                    </linearGradient>
-                    <linearGradient id="lowGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={TIER_COLORS.low} stopOpacity={0.8} />
-                      <stop offset="100%" stopColor={TIER_COLORS.low} stopOpacity={0.1} />
-                    </linearGradient>
+                    {TIERS.map((tier) => (
+                      <linearGradient key={tier.key} id={`${tier.key}Gradient`} x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor={tier.color} stopOpacity={0.8} />
+                        <stop offset="100%" stopColor={tier.color} stopOpacity={0.1} />
+                      </linearGradient>
+                    ))}
                     <linearGradient id="wauGradient" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="0%" stopColor="#7c3aed" stopOpacity={0.4} />
                       <stop offset="100%" stopColor="#7c3aed" stopOpacity={0.05} />
@@ -544,23 +1030,12 @@ function App() {
                   </defs>
                   <CartesianGrid strokeDasharray="3 3" stroke="#2a2a3a" />
                   <XAxis
-                    dataKey="date"
+                    dataKey="period_start"
                     stroke="#606070"
                     tick={{ fill: "#9090a0", fontSize: 11 }}
                     tickLine={{ stroke: "#2a2a3a" }}
                     interval={Math.floor(chartData.length / 12)}
-                    tickFormatter={(value: string) => {
-                      // Convert "2025-W49" to "Dec 2025"
-                      const match = value.match(/^(\d{4})-W(\d+)$/);
-                      if (match && match[1] && match[2]) {
-                        const year = parseInt(match[1]);
-                        const week = parseInt(match[2]);
-                        // Approximate the month from week number
-                        const date = new Date(year, 0, 1 + (week - 1) * 7);
-                        return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
-                      }
-                      return value;
-                    }}
+                    tickFormatter={(value: string) => formatDate(value)}
                   />
                   <YAxis
                     yAxisId="users"
@@ -576,7 +1051,7 @@ function App() {
                       stroke={showPrice ? "#00d395" : "#ec4899"}
                       tick={{ fill: showPrice ? "#00d395" : "#ec4899", fontSize: 11 }}
                       tickLine={{ stroke: showPrice ? "#00d395" : "#ec4899" }}
-                      tickFormatter={(v) => showPrice ? `$${v.toFixed(2)}` : formatNumber(v)}
+                      tickFormatter={(v) => showPrice ? `${PRICE_SOURCES[priceSource].unit}${v.toFixed(2)}` : formatNumber(v)}
                     />
                   )}
                   <Tooltip content={<CustomTooltip />} />
@@ -590,7 +1065,7 @@ function App() {
                       stroke="#7c3aed"
                       strokeWidth={2}
                       fill="url(#wauGradient)"
-                      name="Total WAU"
+                      name={activeUsersLabel}
                     />
                   )}
                   {showTotalWAU && viewMode !== "wau-price" && (
@@ -601,57 +1076,245 @@ function App() {
                       stroke="#7c3aed"
                       strokeWidth={2}
                       dot={false}
-                      name="Total WAU"
+                      name={activeUsersLabel}
                     />
                   )}
 
                   {/* Stacked Areas */}
                   {viewMode === "stacked" && (
                     <>
-                      {visibleTiers.low && (
-                        <Area yAxisId="users" type="monotone" dataKey="low_activity_users" stackId="1" stroke={TIER_COLORS.low} fill="url(#lowGradient)" name={TIER_LABELS.low} />
-                      )}
-                      {visibleTiers.occasional && (
-                        <Area yAxisId="users" type="monotone" dataKey="occasional_users" stackId="1" stroke={TIER_COLORS.occasional} fill="url(#occasionalGradient)" name={TIER_LABELS.occasional} />
-                      )}
-                      {visibleTiers.active && (
-                        <Area yAxisId="users" type="monotone" dataKey="active_users" stackId="1" stroke={TIER_COLORS.active} fill="url(#activeGradient)" name={TIER_LABELS.active} />
-                      )}
-                      {visibleTiers.very && (
-                        <Area yAxisId="users" type="monotone" dataKey="very_active_users" stackId="1" stroke={TIER_COLORS.very} fill="url(#veryGradient)" name={TIER_LABELS.very} />
-                      )}
-                      {visibleTiers.ultra && (
-                        <Area yAxisId="users" type="monotone" dataKey="ultra_active_users" stackId="1" stroke={TIER_COLORS.ultra} fill="url(#ultraGradient)" name={TIER_LABELS.ultra} />
-                      )}
+                      {/* Lowest tier at the bottom of the stack */}
+                      {[...TIERS].reverse().filter((tier) => visibleTiers[tier.key]).map((tier) => (
+                        <Area key={tier.key} yAxisId="users" type="monotone" dataKey={`tiers.${segment}.${tier.key}`} stackId="1" stroke={tier.color} fill={`url(#${tier.key}Gradient)`} name={chartTierLabels[tier.key]} />
+                      ))}
                     </>
                   )}
 
                   {/* Lines Mode */}
                   {viewMode === "all" && anyTierVisible && (
                     <>
-                      {visibleTiers.ultra && <Line yAxisId="users" type="monotone" dataKey="ultra_active_users" stroke={TIER_COLORS.ultra} strokeWidth={2} dot={false} name={TIER_LABELS.ultra} />}
-                      {visibleTiers.very && <Line yAxisId="users" type="monotone" dataKey="very_active_users" stroke={TIER_COLORS.very} strokeWidth={2} dot={false} name={TIER_LABELS.very} />}
-                      {visibleTiers.active && <Line yAxisId="users" type="monotone" dataKey="active_users" stroke={TIER_COLORS.active} strokeWidth={2} dot={false} name={TIER_LABELS.active} />}
-                      {visibleTiers.occasional && <Line yAxisId="users" type="monotone" dataKey="occasional_users" stroke={TIER_COLORS.occasional} strokeWidth={2} dot={false} name={TIER_LABELS.occasional} />}
-                      {visibleTiers.low && <Line yAxisId="users" type="monotone" dataKey="low_activity_users" stroke={TIER_COLORS.low} strokeWidth={2} dot={false} name={TIER_LABELS.low} />}
+                      {TIERS.filter((tier) => visibleTiers[tier.key]).map((tier) => (
+                        <Line key={tier.key} yAxisId="users" type="monotone" dataKey={`tiers.${segment}.${tier.key}`} stroke={tier.color} strokeWidth={2} dot={false} name={chartTierLabels[tier.key]} />
+                      ))}
                     </>
                   )}
 
+                  {/* Voters Line */}
+                  {showVoters && granularity === "week" && (
+                    <Line yAxisId="users" type="monotone" dataKey="unique_voters" stroke="#a3e635" strokeWidth={2} dot={false} name="Unique Voters" connectNulls />
+                  )}
+
                   {/* Price Line */}
                   {showPrice && (
-                    <Line yAxisId="secondary" type="monotone" dataKey="avg_price" stroke="#00d395" strokeWidth={2} dot={false} name="Price (USD)" connectNulls />
+                    <Line yAxisId="secondary" type="monotone" dataKey={PRICE_SOURCES[priceSource].dataKey} stroke="#00d395" strokeWidth={2} dot={false} name={PRICE_SOURCES[priceSource].name} connectNulls />
                   )}
 
                   {/* Content Volume Line */}
                   {showContent && !showPrice && (
                     <Line yAxisId="secondary" type="monotone" dataKey="total_content" stroke="#ec4899" strokeWidth={2} dot={false} name="Posts + Comments" />
                   )}
+
+                  {/* Hive fork marker */}
+                  {forkPeriod && (
+                    <ReferenceLine
+                      yAxisId="users"
+                      x={forkPeriod}
+                      stroke="#e31337"
+                      strokeDasharray="4 4"
+                      label={{ value: `Hive fork ${formatDay(FORK_DATE)}`, position: "insideTopRight", fill: "#e31337", fontSize: 11 }}
+                    />
+                  )}
+
+                  {/* Range selector, drives the leaderboard week */}
+                  <Brush
+                    key={`${community ?? "all"}-${granularity}-${yearRange[0]}-${yearRange[1]}`}
+                    dataKey="period_start"
+                    height={24}
+                    stroke="#e31337"
+                    fill="#12121a"
+                    tickFormatter={(v) => formatDate(v)}
+                    onChange={(range) => setBrushEndIndex(range.endIndex)}
+                  />
                 </ComposedChart>
               </ResponsiveContainer>
             </div>
           </div>
         </section>
 
+        {/* Leaderboards */}
+        {leaderboards?.week && (
+          <section style={{ marginBottom: "3rem" }} className="opacity-0 animate-fade-in-up animate-delay-500">
+            <div className="chart-card">
+              <h3 style={{ fontSize: "1.25rem", fontWeight: 700, marginBottom: "0.5rem", color: "var(--color-text-primary)", display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                <Trophy size={20} /> Leaderboards
+              </h3>
+              <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginBottom: "1.5rem" }}>
+                Week of {formatDay(leaderboards.week)}. Drag the range selector under the main chart to pick another week.
+              </p>
+              <div className="grid md:grid-cols-4 gap-4">
+                {(["total", "posts", "comments", "communities"] as LeaderboardName[]).map((board) => (
+                  <div key={board} className="insight-card">
+                    <h4 style={{ fontWeight: 600, color: "var(--color-text-primary)", marginBottom: "0.75rem" }}>{LEADERBOARD_TITLES[board]}</h4>
+                    <table className="leaderboard-table">
+                      <tbody>
+                        {leaderboards[board].map((entry) => (
+                          <tr key={entry.rank}>
+                            <td style={{ color: "var(--color-text-muted)", width: 24 }}>{entry.rank}</td>
+                            <td className="truncate" style={{ color: "var(--color-text-secondary)", maxWidth: 0, width: "100%" }} title={entry.name}>{entry.name}</td>
+                            <td style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)", textAlign: "right" }}>{formatNumber(LEADERBOARD_VALUES[board](entry))}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Growth Accounting */}
+        {growthData.length > 0 && (
+          <section style={{ marginBottom: "3rem" }} className="opacity-0 animate-fade-in-up animate-delay-500">
+            <div className="chart-card">
+              <h3 style={{ fontSize: "1.25rem", fontWeight: 700, marginBottom: "0.5rem", color: "var(--color-text-primary)", display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                <UserPlus size={20} /> Growth Accounting
+              </h3>
+              <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginBottom: "1.5rem" }}>
+                Weekly authors split into new, retained (active last week) and resurrected (returning after a break), with churned authors (active last week, not this week) below the axis.
+              </p>
+              <div className="chart-container-small">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={growthData} stackOffset="sign" margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2a2a3a" />
+                    <XAxis
+                      dataKey="week_start"
+                      stroke="#606070"
+                      tick={{ fill: "#9090a0", fontSize: 11 }}
+                      interval={Math.floor(growthData.length / 12)}
+                      tickFormatter={(value: string) => formatDate(value)}
+                    />
+                    <YAxis stroke="#606070" tick={{ fill: "#9090a0", fontSize: 11 }} tickFormatter={(v) => formatNumber(Math.abs(v))} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Legend />
+                    <Bar dataKey="retained_users" name="Retained" stackId="growth" fill="#7c3aed" />
+                    <Bar dataKey="resurrected_users" name="Resurrected" stackId="growth" fill="#4ecdc4" />
+                    <Bar dataKey="new_users" name="New" stackId="growth" fill="#4ade80" />
+                    <Bar dataKey="churned_users" name="Churned" stackId="growth" fill="#f87171" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Activity by App */}
+        {appData.length > 0 && data.appActivity.apps.length > 0 && (
+          <section style={{ marginBottom: "3rem" }} className="opacity-0 animate-fade-in-up animate-delay-500">
+            <div className="chart-card">
+              <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", justifyContent: "space-between", gap: "1rem", marginBottom: "0.5rem" }}>
+                <h3 style={{ fontSize: "1.25rem", fontWeight: 700, color: "var(--color-text-primary)", margin: 0, display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                  <AppWindow size={20} /> Activity by App
+                </h3>
+                <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4 }}>
+                  {(["users", "content"] as AppMetric[]).map((metric) => (
+                    <button
+                      key={metric}
+                      onClick={() => setAppMetric(metric)}
+                      className={`toggle-btn ${appMetric === metric ? "active" : ""}`}
+                    >
+                      {metric === "users" ? "Users" : "Posts+Comments"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginBottom: "1.5rem" }}>
+                Weekly activity by the front-end or dApp recorded in each post's metadata. Authors using several apps in a week count towards each of them.
+              </p>
+              <div className="chart-container-small">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={appData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2a2a3a" />
+                    <XAxis
+                      dataKey="week_start"
+                      stroke="#606070"
+                      tick={{ fill: "#9090a0", fontSize: 11 }}
+                      interval={Math.floor(appData.length / 12)}
+                      tickFormatter={(value: string) => formatDate(value)}
+                    />
+                    <YAxis stroke="#606070" tick={{ fill: "#9090a0", fontSize: 11 }} tickFormatter={(v) => formatNumber(v)} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Legend />
+                    {[...data.appActivity.apps, "other"].map((app, i) => {
+                      const color = APP_COLORS[i] ?? OTHER_APP_COLOR;
+                      return (
+                        <Area
+                          key={app}
+                          type="monotone"
+                          dataKey={`${appMetric}.${app}`}
+                          name={app === "other" ? "Other" : app}
+                          stackId="apps"
+                          stroke={app === "other" ? OTHER_APP_COLOR : color}
+                          fill={app === "other" ? OTHER_APP_COLOR : color}
+                          fillOpacity={0.5}
+                        />
+                      );
+                    })}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Cohort Retention */}
+        {filteredCohorts.length > 0 && (
+          <section style={{ marginBottom: "3rem" }} className="opacity-0 animate-fade-in-up animate-delay-500">
+            <div className="chart-card">
+              <h3 style={{ fontSize: "1.25rem", fontWeight: 700, marginBottom: "0.5rem", color: "var(--color-text-primary)", display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                <Grid3x3 size={20} /> Cohort Retention
+              </h3>
+              <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginBottom: "1.5rem" }}>
+                Authors grouped by the month of their first post or comment, and the share of each cohort still active N months later.
+              </p>
+              <div className="cohort-scroll">
+                <table className="cohort-table">
+                  <thead>
+                    <tr>
+                      <th style={{ textAlign: "left" }}>Cohort</th>
+                      <th style={{ textAlign: "right" }}>Users</th>
+                      {Array.from({ length: COHORT_MONTHS + 1 }, (_, i) => (
+                        <th key={i}>M{i}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredCohorts.map((cohort) => (
+                      <tr key={cohort.cohortMonth}>
+                        <td style={{ textAlign: "left", color: "var(--color-text-primary)", whiteSpace: "nowrap" }}>{formatDate(cohort.cohortMonth)}</td>
+                        <td style={{ textAlign: "right", color: "var(--color-text-secondary)" }}>{formatNumber(cohort.size)}</td>
+                        {Array.from({ length: COHORT_MONTHS + 1 }, (_, i) => {
+                          const percent = cohort.retention[i];
+                          if (percent === undefined) return <td key={i} />;
+                          return (
+                            <td
+                              key={i}
+                              title={`${formatDate(cohort.cohortMonth)} cohort, month ${i}: ${percent}%`}
+                              style={{ background: cohortCellColor(percent), color: percent >= 25 ? "white" : "var(--color-text-secondary)" }}
+                            >
+                              {percent.toFixed(0)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </section>
+        )}
+
         {/* Insights Grid */}
         <section style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))", gap: "1.5rem", marginBottom: "3rem" }}>
           {/* Correlation Card */}
@@ -659,29 +1322,52 @@ function App() {
             <h3 style={{ fontSize: "1.125rem", fontWeight: 700, marginBottom: "1rem", color: "var(--color-text-primary)", display: "flex", alignItems: "center", gap: "0.5rem" }}>
               <TrendingUp size={18} /> Price vs Users Correlation
             </h3>
-            <div style={{ display: "flex", alignItems: "center", gap: "1.5rem" }}>
-              <div
-                className="correlation-ring"
-                style={{
-                  background: `conic-gradient(
-                    ${data.insights.correlations.priceUserCorrelation > 0 ? "#00d395" : "#e31337"} ${Math.abs(data.insights.correlations.priceUserCorrelation) * 100}%,
-                    #1a1a25 0%
-                  )`,
-                }}
-              >
-                <div className="correlation-ring-inner">
-                  {(data.insights.correlations.priceUserCorrelation * 100).toFixed(0)}%
-                </div>
-              </div>
-              <div>
-                <p style={{ color: "var(--color-text-secondary)", marginBottom: "0.5rem" }}>
-                  Pearson coefficient: <span style={{ fontFamily: "var(--font-mono)", color: "var(--color-text-primary)" }}>{data.insights.correlations.priceUserCorrelation}</span>
-                </p>
-                <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem" }}>
-                  {data.insights.correlations.description}
-                </p>
-              </div>
+            <div style={{ display: "flex", background: "var(--color-bg-elevated)", borderRadius: 8, padding: 4, marginBottom: "0.75rem", width: "fit-content" }}>
+              {CORRELATION_TRANSFORMS.map((transform) => (
+                <button
+                  key={transform}
+                  onClick={() => setCorrelationTransform(transform)}
+                  className={`toggle-btn ${correlationTransform === transform ? "active" : ""}`}
+                >
+                  {CORRELATION_LABELS[transform]}
+                </button>
+              ))}
+            </div>
+            <div className="lag-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={lagData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#2a2a3a" />
+                  <XAxis dataKey="lag" stroke="#606070" tick={{ fill: "#9090a0", fontSize: 10 }} />
+                  <YAxis domain={[-1, 1]} stroke="#606070" tick={{ fill: "#9090a0", fontSize: 10 }} />
+                  <Tooltip content={<LagTooltip granularity={granularity} />} />
+                  <ReferenceLine y={0} stroke="#606070" />
+                  <Bar dataKey="r" name="r">
+                    {lagData.map((lag) => (
+                      <Cell key={lag.lag} fill={lag.r > 0 ? "#00d395" : "#e31337"} fillOpacity={lag.lag === 0 ? 1 : 0.6} />
+                    ))}
+                    <ErrorBar dataKey="interval" width={3} stroke="#9090a0" />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
             </div>
+            <p style={{ color: "var(--color-text-muted)", fontSize: "0.75rem", marginBottom: "0.75rem" }}>
+              Price vs active users {correlationTransform === "levels" ? "" : "changes "}with users shifted by up to {(lagData.length - 1) / 2} {granularity}s; positive lags mean price moves first
+            </p>
+            <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem", marginBottom: "0.25rem" }}>
+              Pearson: <span style={{ fontFamily: "var(--font-mono)", color: "var(--color-text-primary)" }}>{formatEstimate(view.insights.correlations.pearson)}</span>
+            </p>
+            <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem", marginBottom: "0.25rem" }}>
+              Spearman: <span style={{ fontFamily: "var(--font-mono)", color: "var(--color-text-primary)" }}>{formatEstimate(view.insights.correlations.spearman)}</span>
+            </p>
+            {view.insights.correlations.eras.map((era) => (
+              <p key={era.era} style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem", marginBottom: "0.25rem" }}>
+                {era.name} era: <span style={{ fontFamily: "var(--font-mono)", color: "var(--color-text-primary)" }}>{formatEstimate(era)}</span>
+              </p>
+            ))}
+            <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginTop: "0.5rem" }}>
+              {view.insights.correlations.description}
+              {view.insights.correlations.strongestLag && `; strongest with ${formatLag(view.insights.correlations.strongestLag.lag, granularity)}`}
+            </p>
           </div>
 
           {/* Activity Distribution */}
@@ -737,7 +1423,7 @@ function App() {
                   </tr>
                 </thead>
                 <tbody>
-                  {data.insights.yearOverYear.map((year) => (
+                  {view.insights.yearOverYear.map((year) => (
                     <tr key={year.year} style={{ borderBottom: "1px solid rgba(42, 42, 58, 0.5)" }}>
                       <td style={{ padding: "0.75rem 1rem", fontWeight: 700, color: "var(--color-text-primary)" }}>{year.year}</td>
                       <td style={{ padding: "0.75rem 1rem", textAlign: "right", fontFamily: "var(--font-mono)", color: "var(--color-text-primary)" }}>
@@ -776,7 +1462,7 @@ function App() {
             </h3>
             <div className="chart-container-small">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={data.insights.yearOverYear} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                <BarChart data={view.insights.yearOverYear} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#2a2a3a" />
                   <XAxis dataKey="year" stroke="#606070" tick={{ fill: "#9090a0", fontSize: 11 }} />
                   <YAxis stroke="#606070" tick={{ fill: "#9090a0", fontSize: 11 }} tickFormatter={(v) => formatNumber(v)} />
@@ -802,7 +1488,7 @@ function App() {
                   <TrendingUp size={16} /> Peak Activity Period
                 </h4>
                 <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem" }}>
-                  The blockchain saw its highest weekly engagement of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(data.summary.peakWeeklyUsers)}</span> active users during <span style={{ color: "var(--color-text-primary)" }}>{formatDate(data.summary.peakWeekDate)}</span>, coinciding with the 2018 crypto boom.
+                  The blockchain saw its highest weekly engagement of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(view.summary.peakWeeklyUsers ?? 0)}</span> active users during <span style={{ color: "var(--color-text-primary)" }}>{view.summary.peakWeekDate ? formatDate(view.summary.peakWeekDate) : "—"}</span>{view.summary.peakWeekDate?.startsWith("2018-") ? ", coinciding with the 2018 crypto boom" : ""}.
                 </p>
               </div>
               <div className="insight-card">
@@ -810,9 +1496,11 @@ function App() {
                   <DollarSign size={16} /> Price Correlation
                 </h4>
                 <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem" }}>
-                  {data.insights.correlations.priceUserCorrelation > 0.3 
+                  {view.insights.correlations.strongestLag && view.insights.correlations.strongestLag.lag > 0 && view.insights.correlations.strongestLag.r > 0
+                    ? `Active users tend to follow price moves about ${view.insights.correlations.strongestLag.lag} ${granularity}${view.insights.correlations.strongestLag.lag === 1 ? "" : "s"} later, suggesting price appreciation drives engagement.`
+                    : view.insights.correlations.pearson.r > 0.3
                     ? "Higher token prices tend to attract more active users, suggesting price appreciation drives engagement."
-                    : data.insights.correlations.priceUserCorrelation < -0.3
+                    : view.insights.correlations.pearson.r < -0.3
                     ? "Interestingly, user activity increases when prices are lower, possibly indicating committed community members."
                     : "User activity appears largely independent of token price, suggesting a dedicated core community."
                   }
@@ -823,7 +1511,7 @@ function App() {
                   <Users size={16} /> User Retention Pattern
                 </h4>
                 <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem" }}>
-                  <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{(data.insights.activityDistribution.occasional + data.insights.activityDistribution.lowActivity).toFixed(1)}%</span> of user activity comes from casual participants (1-9 actions/week), while power users (20+ actions) make up only <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{(data.insights.activityDistribution.ultraActive + data.insights.activityDistribution.veryActive).toFixed(1)}%</span>.
+                  <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{tierShare(view.insights.activityDistribution, CASUAL_TIERS).toFixed(1)}%</span> of user activity comes from casual participants ({tierGroupRange(CASUAL_TIERS, granularity)} actions/{granularity}), while power users ({tierGroupRange(POWER_TIERS, granularity)} actions) make up only <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{tierShare(view.insights.activityDistribution, POWER_TIERS).toFixed(1)}%</span>.
                 </p>
               </div>
               <div className="insight-card">
@@ -831,7 +1519,7 @@ function App() {
                   <MessageSquare size={16} /> Content Engagement
                 </h4>
                 <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem" }}>
-                  Total of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(data.summary.totalPosts)}</span> posts with <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(data.summary.totalComments)}</span> comments — an average of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{(data.summary.totalComments / data.summary.totalPosts).toFixed(1)}</span> comments per post.
+                  Total of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(view.summary.totalPosts)}</span> posts with <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{formatNumber(view.summary.totalComments)}</span> comments — an average of <span style={{ color: "var(--color-text-primary)", fontFamily: "var(--font-mono)" }}>{view.summary.totalPosts > 0 ? (view.summary.totalComments / view.summary.totalPosts).toFixed(1) : "—"}</span> comments per post.
                 </p>
               </div>
             </div>
@@ -843,10 +1531,10 @@ function App() {
           <p style={{ color: "var(--color-text-muted)", fontSize: "0.875rem", marginBottom: "0.75rem" }}>
             Data sourced from <a href="https://hivesql.io" target="_blank" rel="noopener noreferrer" style={{ color: "var(--color-hive-red)", display: "inline-flex", alignItems: "center", gap: "0.25rem" }}>HiveSQL <ExternalLink size={12} /></a> 
             {" • "}
-            Prices from <a href="https://cryptocompare.com" target="_blank" rel="noopener noreferrer" style={{ color: "var(--color-hive-red)", display: "inline-flex", alignItems: "center", gap: "0.25rem" }}>CryptoCompare <ExternalLink size={12} /></a>
+            Prices from <a href="https://cryptocompare.com" target="_blank" rel="noopener noreferrer" style={{ color: "var(--color-hive-red)", display: "inline-flex", alignItems: "center", gap: "0.25rem" }}>CryptoCompare <ExternalLink size={12} /></a> and the internal HIVE/HBD market
           </p>
           <p style={{ color: "var(--color-text-muted)", fontSize: "0.75rem", marginBottom: "0.75rem" }}>
-            {data.summary.totalWeeks} weeks of blockchain data analyzed
+            {view.summary.totalWeeks} weeks of blockchain data analyzed
           </p>
           <p style={{ color: "var(--color-text-secondary)", fontSize: "0.875rem" }}>
             Made by <a href="https://peakd.com/@cryptosharon" target="_blank" rel="noopener noreferrer" style={{ color: "var(--color-hive-red)", fontWeight: 500, display: "inline-flex", alignItems: "center", gap: "0.25rem" }}>@cryptosharon <ExternalLink size={12} /></a>
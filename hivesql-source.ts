@@ -0,0 +1,571 @@
+// ChainDataSource backed by HiveSQL (vip.hivesql.io), a SQL Server mirror of
+// the Hive blockchain. Every aggregation runs server-side in T-SQL.
+
+import sql from "mssql";
+import { SEGMENTS, TIERS, type Granularity, type Segment } from "./tiers";
+import { WEEK_START_DAY } from "./periods";
+import {
+  APP_ALIASES,
+  LEADERBOARD_SIZE,
+  type AppWeeklyStats,
+  type ChainDataSource,
+  type CohortActivity,
+  type CommunityWeeklyStats,
+  type FetchWindow,
+  type InternalMarketDay,
+  type LeaderboardEntry,
+  type PeriodStats,
+  type WeeklyGrowth,
+  type WeeklyVotes,
+} from "./chain-data-source";
+
+// Any date falling on WEEK_START_DAY; the SQL buckets count days since it.
+// 1900-01-01 was a Monday.
+const WEEK_ANCHOR = new Date(Date.UTC(1900, 0, WEEK_START_DAY));
+
+// SQL Server expression for the start of the period containing `column`
+// (Comments.created by default). A week starts on the day on or before it
+// that falls on WEEK_START_DAY (a multiple of 7 days after @anchor).
+function periodBucketSql(granularity: Granularity, column = "created"): string {
+  switch (granularity) {
+    case "day":
+      return `CAST(${column} AS DATE)`;
+    case "week":
+      return `DATEADD(DAY, -(DATEDIFF(DAY, @anchor, ${column}) % 7), CAST(${column} AS DATE))`;
+    case "month":
+      return `DATEFROMPARTS(YEAR(${column}), MONTH(${column}), 1)`;
+  }
+}
+
+// UserPeriodTotals condition selecting each segment's users
+const SEGMENT_FILTERS: Record<Segment, string> = {
+  all: "",
+  creators: "posts > 0 AND ",
+  commenters: "posts = 0 AND ",
+};
+
+// A PeriodAggregates row: the totals plus one <segment>_tier<i> column per
+// segment and tier
+type PeriodStatsRow = Omit<PeriodStats, "tiers"> & Record<`${Segment}_tier${number}`, number | null>;
+
+async function fetchPeriodStats(pool: sql.ConnectionPool, window: FetchWindow): Promise<PeriodStats[]> {
+  const bucket = periodBucketSql(window.granularity);
+  
+  // OPTIMIZED: Use date range filter instead of DATEPART function
+  // This allows SQL Server to use indexes on the created column
+  // DATEPART(YEAR, created) = @year forces a full table scan
+  // created >= @from AND created < @to uses indexes
+  const request = pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR);
+  
+  // One user count per segment and tier: at least the tier's own minimum,
+  // below the one above it
+  TIERS.forEach((tier, i) => request.input(`tier${i}`, sql.Int, tier.minActivity[window.granularity]));
+  const tierColumns = SEGMENTS.flatMap((segment) => TIERS.map((_, i) => {
+    const upper = i > 0 ? ` AND total_activity < @tier${i - 1}` : "";
+    return `SUM(CASE WHEN ${SEGMENT_FILTERS[segment]}total_activity >= @tier${i}${upper} THEN 1 ELSE 0 END) as ${segment}_tier${i}`;
+  }));
+  
+  const result = await request.query(`
+      WITH UserPeriodActivity AS (
+        -- Count posts per user per period
+        SELECT
+          author,
+          ${bucket} as period_start,
+          COUNT(*) as post_count,
+          0 as comment_count
+        FROM Comments  -- In HiveSQL, Comments table contains both posts and comments
+        WHERE parent_author = ''  -- Posts have empty parent_author
+          AND created >= @from
+          AND created < @to
+        GROUP BY author, ${bucket}
+        
+        UNION ALL
+        
+        -- Count comments per user per period
+        SELECT
+          author,
+          ${bucket} as period_start,
+          0 as post_count,
+          COUNT(*) as comment_count
+        FROM Comments
+        WHERE parent_author != ''  -- Comments have a parent_author
+          AND created >= @from
+          AND created < @to
+        GROUP BY author, ${bucket}
+      ),
+      UserPeriodTotals AS (
+        SELECT
+          author,
+          period_start,
+          SUM(post_count) as posts,
+          SUM(comment_count) as comments,
+          SUM(post_count) + SUM(comment_count) as total_activity
+        FROM UserPeriodActivity
+        GROUP BY author, period_start
+      ),
+      PeriodAggregates AS (
+        SELECT
+          period_start,
+          COUNT(DISTINCT author) as total_users,
+          SUM(posts) as total_posts,
+          SUM(comments) as total_comments,
+          ${tierColumns.join(",\n          ")}
+        FROM UserPeriodTotals
+        GROUP BY period_start
+      )
+      SELECT * FROM PeriodAggregates
+      ORDER BY period_start
+    `);
+  
+  return result.recordset.map((row: PeriodStatsRow) => ({
+    period_start: row.period_start,
+    total_users: row.total_users,
+    total_posts: row.total_posts,
+    total_comments: row.total_comments,
+    tiers: Object.fromEntries(SEGMENTS.map((segment) => [
+      segment,
+      Object.fromEntries(TIERS.map((tier, i) => [tier.key, row[`${segment}_tier${i}`] ?? 0])),
+    ])) as PeriodStats["tiers"],
+  }));
+}
+
+async function fetchWeeklyGrowth(pool: sql.ConnectionPool, window: FetchWindow): Promise<WeeklyGrowth[]> {
+  const bucket = periodBucketSql("week");
+  
+  // The week before the window is included so the first week of the window
+  // can be compared against it. "Active before" looks at all of history.
+  const result = await pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR)
+    .query(`
+      WITH UserWeeks AS (
+        SELECT DISTINCT
+          author,
+          ${bucket} as week_start
+        FROM Comments
+        WHERE created >= DATEADD(DAY, -7, @from)
+          AND created < @to
+      ),
+      Classified AS (
+        SELECT
+          cur.week_start,
+          CASE
+            WHEN prev.author IS NOT NULL THEN 'retained'
+            WHEN EXISTS (
+              SELECT 1 FROM Comments c
+              WHERE c.author = cur.author AND c.created < cur.week_start
+            ) THEN 'resurrected'
+            ELSE 'new'
+          END as status
+        FROM UserWeeks cur
+        LEFT JOIN UserWeeks prev
+          ON prev.author = cur.author
+          AND prev.week_start = DATEADD(DAY, -7, cur.week_start)
+        WHERE cur.week_start >= @from
+      ),
+      Churned AS (
+        SELECT
+          DATEADD(DAY, 7, prev.week_start) as week_start,
+          COUNT(*) as churned_users
+        FROM UserWeeks prev
+        LEFT JOIN UserWeeks cur
+          ON cur.author = prev.author
+          AND cur.week_start = DATEADD(DAY, 7, prev.week_start)
+        WHERE cur.author IS NULL
+          AND DATEADD(DAY, 7, prev.week_start) < @to
+        GROUP BY DATEADD(DAY, 7, prev.week_start)
+      )
+      SELECT
+        c.week_start,
+        SUM(CASE WHEN c.status = 'new' THEN 1 ELSE 0 END) as new_users,
+        SUM(CASE WHEN c.status = 'retained' THEN 1 ELSE 0 END) as retained_users,
+        SUM(CASE WHEN c.status = 'resurrected' THEN 1 ELSE 0 END) as resurrected_users,
+        COALESCE(MAX(ch.churned_users), 0) as churned_users
+      FROM Classified c
+      LEFT JOIN Churned ch ON ch.week_start = c.week_start
+      GROUP BY c.week_start
+      ORDER BY c.week_start
+    `);
+  
+  return result.recordset.map((row: WeeklyGrowth) => ({
+    week_start: row.week_start,
+    new_users: row.new_users,
+    retained_users: row.retained_users,
+    resurrected_users: row.resurrected_users,
+    churned_users: row.churned_users,
+  }));
+}
+
+async function fetchWeeklyVotes(pool: sql.ConnectionPool, window: FetchWindow): Promise<WeeklyVotes[]> {
+  const voteBucket = periodBucketSql("week", "[timestamp]");
+  const authorBucket = periodBucketSql("week");
+  
+  const result = await pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR)
+    .query(`
+      WITH VoterWeeks AS (
+        SELECT
+          voter,
+          ${voteBucket} as week_start,
+          COUNT(*) as votes
+        FROM TxVotes
+        WHERE [timestamp] >= @from
+          AND [timestamp] < @to
+        GROUP BY voter, ${voteBucket}
+      ),
+      AuthorWeeks AS (
+        SELECT DISTINCT
+          author,
+          ${authorBucket} as week_start
+        FROM Comments
+        WHERE created >= @from
+          AND created < @to
+      ),
+      -- UNION (not UNION ALL) so voters who also posted are counted once
+      SocialWeeks AS (
+        SELECT voter as account, week_start FROM VoterWeeks
+        UNION
+        SELECT author as account, week_start FROM AuthorWeeks
+      ),
+      SocialAggregates AS (
+        SELECT week_start, COUNT(*) as social_active_users
+        FROM SocialWeeks
+        GROUP BY week_start
+      ),
+      VoteAggregates AS (
+        SELECT
+          week_start,
+          COUNT(*) as unique_voters,
+          SUM(votes) as total_votes
+        FROM VoterWeeks
+        GROUP BY week_start
+      )
+      SELECT
+        s.week_start,
+        COALESCE(v.unique_voters, 0) as unique_voters,
+        COALESCE(v.total_votes, 0) as total_votes,
+        s.social_active_users
+      FROM SocialAggregates s
+      LEFT JOIN VoteAggregates v ON v.week_start = s.week_start
+      ORDER BY s.week_start
+    `);
+  
+  return result.recordset.map((row: WeeklyVotes) => ({
+    week_start: row.week_start,
+    unique_voters: row.unique_voters,
+    total_votes: row.total_votes,
+    social_active_users: row.social_active_users,
+  }));
+}
+
+async function fetchLeaderboards(pool: sql.ConnectionPool, window: FetchWindow): Promise<LeaderboardEntry[]> {
+  const bucket = periodBucketSql("week");
+  
+  // Every board is ranked within each week; ties are broken by name so
+  // reruns produce the same lists
+  const request = () => pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR)
+    .input("size", sql.Int, LEADERBOARD_SIZE);
+  
+  const authors = await request().query(`
+    WITH AuthorWeeks AS (
+      SELECT
+        author,
+        ${bucket} as week_start,
+        SUM(CASE WHEN parent_author = '' THEN 1 ELSE 0 END) as posts,
+        SUM(CASE WHEN parent_author != '' THEN 1 ELSE 0 END) as comments
+      FROM Comments
+      WHERE created >= @from
+        AND created < @to
+      GROUP BY author, ${bucket}
+    ),
+    Ranked AS (
+      SELECT
+        week_start, author, posts, comments,
+        ROW_NUMBER() OVER (PARTITION BY week_start ORDER BY posts DESC, author) as posts_rank,
+        ROW_NUMBER() OVER (PARTITION BY week_start ORDER BY comments DESC, author) as comments_rank,
+        ROW_NUMBER() OVER (PARTITION BY week_start ORDER BY posts + comments DESC, author) as total_rank
+      FROM AuthorWeeks
+    )
+    SELECT * FROM Ranked
+    WHERE posts_rank <= @size OR comments_rank <= @size OR total_rank <= @size
+  `);
+  
+  const communities = await request().query(`
+    WITH CategoryWeeks AS (
+      SELECT
+        category,
+        ${bucket} as week_start,
+        SUM(CASE WHEN parent_author = '' THEN 1 ELSE 0 END) as posts,
+        SUM(CASE WHEN parent_author != '' THEN 1 ELSE 0 END) as comments
+      FROM Comments
+      WHERE created >= @from
+        AND created < @to
+        AND category != ''
+      GROUP BY category, ${bucket}
+    ),
+    Ranked AS (
+      SELECT
+        week_start, category, posts, comments,
+        ROW_NUMBER() OVER (PARTITION BY week_start ORDER BY posts + comments DESC, category) as total_rank
+      FROM CategoryWeeks
+    )
+    SELECT * FROM Ranked
+    WHERE total_rank <= @size
+  `);
+  
+  const entries: LeaderboardEntry[] = [];
+  for (const row of authors.recordset) {
+    const entry = { week_start: row.week_start, name: row.author, posts: row.posts, comments: row.comments };
+    // An author without posts (or comments) doesn't belong on that board
+    if (row.posts_rank <= LEADERBOARD_SIZE && row.posts > 0) {
+      entries.push({ ...entry, board: "posts", rank: row.posts_rank });
+    }
+    if (row.comments_rank <= LEADERBOARD_SIZE && row.comments > 0) {
+      entries.push({ ...entry, board: "comments", rank: row.comments_rank });
+    }
+    if (row.total_rank <= LEADERBOARD_SIZE) {
+      entries.push({ ...entry, board: "total", rank: row.total_rank });
+    }
+  }
+  for (const row of communities.recordset) {
+    entries.push({
+      week_start: row.week_start,
+      board: "communities",
+      rank: row.total_rank,
+      name: row.category,
+      posts: row.posts,
+      comments: row.comments,
+    });
+  }
+  
+  return entries;
+}
+
+async function fetchAppStats(pool: sql.ConnectionPool, window: FetchWindow): Promise<AppWeeklyStats[]> {
+  const bucket = periodBucketSql("week");
+  
+  const request = pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR);
+  
+  const aliases = Object.entries(APP_ALIASES).map(([alias, app], i) => {
+    request.input(`alias${i}`, sql.NVarChar, alias).input(`app${i}`, sql.NVarChar, app);
+    return `WHEN @alias${i} THEN @app${i}`;
+  });
+  
+  const result = await request.query(`
+    WITH ContentApps AS (
+      SELECT
+        author,
+        ${bucket} as week_start,
+        parent_author,
+        -- ISJSON guards JSON_VALUE against malformed metadata
+        LOWER(LTRIM(RTRIM(CASE WHEN ISJSON(json_metadata) = 1 THEN JSON_VALUE(json_metadata, '$.app') END))) as raw_app
+      FROM Comments
+      WHERE created >= @from
+        AND created < @to
+    ),
+    NamedApps AS (
+      SELECT
+        author,
+        week_start,
+        parent_author,
+        CASE
+          WHEN raw_app IS NULL OR raw_app = '' OR raw_app LIKE '/%' THEN 'unknown'
+          ELSE LEFT(raw_app, CHARINDEX('/', raw_app + '/') - 1)
+        END as base_app
+      FROM ContentApps
+    ),
+    NormalizedApps AS (
+      SELECT
+        author,
+        week_start,
+        parent_author,
+        CASE base_app ${aliases.join(" ")} ELSE base_app END as app
+      FROM NamedApps
+    )
+    SELECT
+      app,
+      week_start,
+      COUNT(DISTINCT author) as total_users,
+      SUM(CASE WHEN parent_author = '' THEN 1 ELSE 0 END) as total_posts,
+      SUM(CASE WHEN parent_author != '' THEN 1 ELSE 0 END) as total_comments
+    FROM NormalizedApps
+    GROUP BY app, week_start
+    ORDER BY week_start, app
+  `);
+  
+  return result.recordset.map((row: AppWeeklyStats) => ({
+    app: row.app,
+    week_start: row.week_start,
+    total_users: row.total_users,
+    total_posts: row.total_posts,
+    total_comments: row.total_comments,
+  }));
+}
+
+async function fetchCommunityStats(pool: sql.ConnectionPool, window: FetchWindow): Promise<CommunityWeeklyStats[]> {
+  const bucket = periodBucketSql("week");
+  
+  const result = await pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .input("anchor", sql.Date, WEEK_ANCHOR)
+    .query(`
+      SELECT
+        category as community,
+        ${bucket} as week_start,
+        COUNT(DISTINCT author) as total_users,
+        SUM(CASE WHEN parent_author = '' THEN 1 ELSE 0 END) as total_posts,
+        SUM(CASE WHEN parent_author != '' THEN 1 ELSE 0 END) as total_comments
+      FROM Comments
+      WHERE created >= @from
+        AND created < @to
+        AND category LIKE 'hive-[0-9]%'
+      GROUP BY category, ${bucket}
+      ORDER BY week_start, community
+    `);
+  
+  return result.recordset.map((row: CommunityWeeklyStats) => ({
+    community: row.community,
+    week_start: row.week_start,
+    total_users: row.total_users,
+    total_posts: row.total_posts,
+    total_comments: row.total_comments,
+  }));
+}
+
+async function fetchCohortActivity(pool: sql.ConnectionPool, window: FetchWindow): Promise<CohortActivity[]> {
+  // Cohorts are assigned from each active author's first activity ever, so
+  // only the window's authors need their full history looked up
+  const result = await pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .query(`
+      WITH MonthlyActive AS (
+        SELECT DISTINCT
+          author,
+          DATEFROMPARTS(YEAR(created), MONTH(created), 1) as active_month
+        FROM Comments
+        WHERE created >= @from
+          AND created < @to
+      ),
+      FirstActivity AS (
+        SELECT
+          c.author,
+          MIN(c.created) as first_created
+        FROM Comments c
+        WHERE c.author IN (SELECT author FROM MonthlyActive)
+        GROUP BY c.author
+      )
+      SELECT
+        DATEFROMPARTS(YEAR(f.first_created), MONTH(f.first_created), 1) as cohort_month,
+        m.active_month,
+        COUNT(*) as active_users
+      FROM MonthlyActive m
+      JOIN FirstActivity f ON f.author = m.author
+      GROUP BY DATEFROMPARTS(YEAR(f.first_created), MONTH(f.first_created), 1), m.active_month
+      ORDER BY cohort_month, m.active_month
+    `);
+  
+  return result.recordset.map((row: CohortActivity) => ({
+    cohort_month: row.cohort_month,
+    active_month: row.active_month,
+    active_users: row.active_users,
+  }));
+}
+
+// Amounts may come back as decimals, hence the Number() conversions below
+interface InternalMarketRow {
+  date: Date;
+  vwap: number | string;
+  hive_volume: number | string;
+  hbd_volume: number | string;
+  fills: number;
+}
+
+// Daily VWAP of the internal market. Each fill pays HIVE one way and HBD the
+// other; pre-fork fills may carry the STEEM/SBD symbols.
+async function fetchInternalMarket(pool: sql.ConnectionPool, window: FetchWindow): Promise<InternalMarketDay[]> {
+  const result = await pool.request()
+    .input("from", sql.DateTime, window.from)
+    .input("to", sql.DateTime, window.to)
+    .query(`
+      WITH Fills AS (
+        SELECT
+          CAST([timestamp] AS DATE) as date,
+          CASE WHEN current_pays_symbol IN ('HBD', 'SBD') THEN open_pays ELSE current_pays END as hive_amount,
+          CASE WHEN current_pays_symbol IN ('HBD', 'SBD') THEN current_pays ELSE open_pays END as hbd_amount
+        FROM VOFillOrders
+        WHERE [timestamp] >= @from
+          AND [timestamp] < @to
+      )
+      SELECT
+        date,
+        SUM(hbd_amount) / SUM(hive_amount) as vwap,
+        SUM(hive_amount) as hive_volume,
+        SUM(hbd_amount) as hbd_volume,
+        COUNT(*) as fills
+      FROM Fills
+      WHERE hive_amount > 0 AND hbd_amount > 0
+      GROUP BY date
+      ORDER BY date
+    `);
+  
+  return result.recordset.map((row: InternalMarketRow) => ({
+    date: row.date,
+    vwap: Number(row.vwap),
+    hive_volume: Number(row.hive_volume),
+    hbd_volume: Number(row.hbd_volume),
+    fills: row.fills,
+  }));
+}
+
+// Connection settings are read when connecting so dotenv has loaded them.
+// The pool holds one connection per concurrently fetched chunk.
+function hiveSqlConfig(concurrency: number): sql.config {
+  return {
+    server: "vip.hivesql.io",
+    port: 1433,
+    database: "DBHive",
+    user: process.env.HIVESQL_USERNAME,
+    password: process.env.HIVESQL_PASSWORD,
+    options: {
+      encrypt: true,
+      trustServerCertificate: true,
+    },
+    requestTimeout: 300000, // 5 minutes; queries cover a month at most
+    connectionTimeout: 60000,
+    pool: {
+      max: concurrency,
+      min: 0,
+    },
+  };
+}
+
+export async function connectHiveSql(concurrency: number): Promise<ChainDataSource> {
+  const pool = await new sql.ConnectionPool(hiveSqlConfig(concurrency)).connect();
+  
+  return {
+    name: "HiveSQL",
+    fetchPeriodStats: (window) => fetchPeriodStats(pool, window),
+    fetchWeeklyGrowth: (window) => fetchWeeklyGrowth(pool, window),
+    fetchWeeklyVotes: (window) => fetchWeeklyVotes(pool, window),
+    fetchLeaderboards: (window) => fetchLeaderboards(pool, window),
+    fetchCommunityStats: (window) => fetchCommunityStats(pool, window),
+    fetchAppStats: (window) => fetchAppStats(pool, window),
+    fetchCohortActivity: (window) => fetchCohortActivity(pool, window),
+    fetchInternalMarket: (window) => fetchInternalMarket(pool, window),
+    close: () => pool.close(),
+  };
+}
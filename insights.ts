@@ -0,0 +1,253 @@
+// Overview summary and insights for a date window, computed from the period
+// series alone. stats.ts runs it for /api/stats and data.json, and the
+// dashboard reruns it on the same series for its selected year range, which
+// also works on the static build where only data.json is available.
+
+import { TIERS, type Granularity, type Segment } from "./tiers";
+import { CHAIN_ERAS, eraOn } from "./eras";
+import {
+  crossCorrelation,
+  estimateCorrelation,
+  isSignificant,
+  rollingCorrelation,
+  transformSeries,
+  type CorrelationEstimate,
+  type CorrelationTransform,
+  type LagCorrelation,
+} from "./correlation";
+
+// The fields of a period row the insights read
+interface PeriodRow {
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  avg_price: number | null;
+  tiers: Record<Segment, Record<string, number>>;
+}
+
+export interface InsightSeries {
+  weeklyStats: Array<PeriodRow & { week_start: string; year: number; price_days: number }>;
+  dailyStats: Array<PeriodRow & { date: string }>;
+  monthlyStats: Array<PeriodRow & { month_start: string; stickiness: number | null }>;
+  // Starts of the newest stored week and month, which are still in progress.
+  // Without it the series must hold every stored period, and their last
+  // entries are taken.
+  inProgress?: { week: string | null; month: string | null };
+}
+
+export interface StatsSummary {
+  totalWeeks: number;
+  totalUserWeeks: number;
+  totalPosts: number;
+  totalComments: number;
+  avgWeeklyUsers: number;
+  // Null when the window holds no (complete) week
+  peakWeeklyUsers: number | null;
+  peakWeekDate: string | null;
+  lastCompleteWeekUsers: number | null;
+  lastCompleteWeekDate: string | null;
+  lastCompleteMonthUsers: number | null;
+  lastCompleteMonthDate: string | null;
+  lastCompleteMonthStickiness: number | null;
+}
+
+export interface StatsInsights {
+  yearOverYear: Array<{
+    year: number;
+    avgWeeklyUsers: number;
+    avgPrice: number | null;
+    totalPosts: number;
+    totalComments: number;
+    changePercent: number | null;
+  }>;
+  // Price vs active users over the periods of the requested granularity
+  // (weeks by default); see correlation.ts
+  correlations: {
+    // Pearson over the raw levels, which mostly reflects the shared trend
+    priceUserCorrelation: number;
+    // Describes the `pearson` estimate below
+    description: string;
+    // What the estimates below correlate (log returns by default)
+    transform: CorrelationTransform;
+    pearson: CorrelationEstimate;
+    spearman: CorrelationEstimate;
+    // Price against users `lag` periods later, from -maxLag to maxLag
+    lags: LagCorrelation[];
+    // Lag with the largest significant |r|, or null if none is significant
+    strongestLag: LagCorrelation | null;
+    eras: Array<CorrelationEstimate & { era: string; name: string }>;
+    rollingWindow: number;
+    rolling: Array<CorrelationEstimate & { end: string }>;
+  };
+  // Percentage of all user-periods in each tier, keyed by tier key
+  activityDistribution: Record<string, number>;
+}
+
+// Inclusive YYYY-MM-DD bounds on period start dates; either may be omitted
+export interface DateWindow {
+  from?: string;
+  to?: string;
+}
+
+export function inWindow(date: string, window: DateWindow): boolean {
+  return (!window.from || date >= window.from) && (!window.to || date <= window.to);
+}
+
+// Lags (in periods) checked by the cross-correlation, and the length of the
+// rolling correlation window, per granularity
+const MAX_LAG: Record<Granularity, number> = { day: 30, week: 12, month: 6 };
+const ROLLING_WINDOW: Record<Granularity, number> = { day: 90, week: 52, month: 12 };
+
+function describeCorrelation(estimate: CorrelationEstimate): string {
+  const r = estimate.r;
+  if (!isSignificant(estimate) || Math.abs(r) <= 0.2) return "No significant correlation";
+  if (r > 0.7) return "Strong positive correlation - price and users move together";
+  if (r > 0.4) return "Moderate positive correlation";
+  if (r > 0.2) return "Weak positive correlation";
+  if (r < -0.7) return "Strong negative correlation - inverse relationship";
+  if (r < -0.4) return "Moderate negative correlation";
+  return "Weak negative correlation";
+}
+
+function sum(rows: PeriodRow[], key: "total_users" | "total_posts" | "total_comments"): number {
+  return rows.reduce((total, row) => total + row[key], 0);
+}
+
+// Only the periods of `series` starting within the window are summarized.
+// The newest week and month are still in progress, so the last complete ones
+// skip them.
+export function summarizeStats(
+  series: InsightSeries,
+  window: DateWindow = {},
+  granularity: Granularity = "week",
+  transform: CorrelationTransform = "logReturns",
+): { summary: StatsSummary; insights: StatsInsights } {
+  const weeks = series.weeklyStats.filter((w) => inWindow(w.week_start, window));
+  const days = series.dailyStats.filter((d) => inWindow(d.date, window));
+  const months = series.monthlyStats.filter((m) => inWindow(m.month_start, window));
+  
+  const inProgress = series.inProgress ?? {
+    week: series.weeklyStats.at(-1)?.week_start ?? null,
+    month: series.monthlyStats.at(-1)?.month_start ?? null,
+  };
+  const lastCompleteWeek = weeks.filter((w) => w.week_start !== inProgress.week).at(-1) ?? null;
+  const lastCompleteMonth = months.filter((m) => m.month_start !== inProgress.month).at(-1) ?? null;
+  
+  const peakWeek = weeks.reduce<(typeof weeks)[number] | null>(
+    (peak, week) => (!peak || week.total_users > peak.total_users ? week : peak), null);
+  
+  // Year over year stats, by ISO week-numbering year for users and prices
+  // alike. A year's price is the average daily price (STEEM before the fork,
+  // HIVE after it) over the days of its weeks in the window, recovered from
+  // each week's average and its number of priced days.
+  const years = new Map<number, typeof weeks>();
+  for (const week of weeks) {
+    years.set(week.year, [...(years.get(week.year) ?? []), week]);
+  }
+  const yearRows = [...years].map(([year, yearWeeks]) => {
+    let priceTotal = 0;
+    let priceDays = 0;
+    for (const week of yearWeeks) {
+      if (week.avg_price === null) continue;
+      priceTotal += week.avg_price * week.price_days;
+      priceDays += week.price_days;
+    }
+    return {
+      year,
+      avg_weekly_users: sum(yearWeeks, "total_users") / yearWeeks.length,
+      avg_price: priceDays > 0 ? priceTotal / priceDays : null,
+      total_posts: sum(yearWeeks, "total_posts"),
+      total_comments: sum(yearWeeks, "total_comments"),
+    };
+  });
+  
+  const yearOverYear = yearRows.map((row, i) => {
+    const prevYear = i > 0 ? yearRows[i - 1] : null;
+    const changePercent = prevYear
+      ? ((row.avg_weekly_users - prevYear.avg_weekly_users) / prevYear.avg_weekly_users) * 100
+      : null;
+    
+    return {
+      year: row.year,
+      avgWeeklyUsers: Math.round(row.avg_weekly_users),
+      avgPrice: row.avg_price !== null ? Number(row.avg_price.toFixed(4)) : null,
+      totalPosts: row.total_posts,
+      totalComments: row.total_comments,
+      changePercent: changePercent !== null ? Number(changePercent.toFixed(1)) : null,
+    };
+  });
+  
+  // Correlation and tiers are based on the requested granularity's periods
+  const periods: Array<PeriodRow & { start: string }> = granularity === "day"
+    ? days.map((d) => ({ ...d, start: d.date }))
+    : granularity === "month"
+      ? months.map((m) => ({ ...m, start: m.month_start }))
+      : weeks.map((w) => ({ ...w, start: w.week_start }));
+  
+  const starts = periods.map((p) => p.start);
+  const eraKeys = starts.map((start) => eraOn(start).key);
+  const priceLevels = periods.map((p) => (p.avg_price !== null && p.avg_price > 0 ? p.avg_price : null));
+  const userLevels = periods.map((p) => p.total_users);
+  const prices = transformSeries(priceLevels, transform, eraKeys);
+  const users = transformSeries(userLevels, transform, eraKeys);
+  
+  const pearson = estimateCorrelation(prices, users);
+  const lags = crossCorrelation(prices, users, MAX_LAG[granularity]);
+  const strongestLag = lags
+    .filter(isSignificant)
+    .reduce<LagCorrelation | null>((best, lag) => (!best || Math.abs(lag.r) > Math.abs(best.r) ? lag : best), null);
+  const eras = CHAIN_ERAS
+    .map((era) => ({
+      era: era.key,
+      name: era.name,
+      ...estimateCorrelation(
+        prices.filter((_, i) => eraKeys[i] === era.key),
+        users.filter((_, i) => eraKeys[i] === era.key),
+      ),
+    }))
+    .filter((era) => era.n > 0);
+  
+  // Activity tier distribution (share of all user-periods per tier)
+  const tierTotals: Record<string, number> = {};
+  for (const period of periods) {
+    for (const tier of TIERS) tierTotals[tier.key] = (tierTotals[tier.key] ?? 0) + (period.tiers.all[tier.key] ?? 0);
+  }
+  const totalTiers = Object.values(tierTotals).reduce((a, b) => a + b, 0);
+  const activityDistribution = Object.fromEntries(TIERS.map((tier) => [
+    tier.key,
+    totalTiers > 0 ? Number((((tierTotals[tier.key] ?? 0) / totalTiers) * 100).toFixed(1)) : 0,
+  ]));
+  
+  return {
+    summary: {
+      totalWeeks: weeks.length,
+      totalUserWeeks: sum(weeks, "total_users"),
+      totalPosts: sum(weeks, "total_posts"),
+      totalComments: sum(weeks, "total_comments"),
+      avgWeeklyUsers: weeks.length > 0 ? Math.round(sum(weeks, "total_users") / weeks.length) : 0,
+      peakWeeklyUsers: peakWeek?.total_users ?? null,
+      peakWeekDate: peakWeek?.week_start ?? null,
+      lastCompleteWeekUsers: lastCompleteWeek?.total_users ?? null,
+      lastCompleteWeekDate: lastCompleteWeek?.week_start ?? null,
+      lastCompleteMonthUsers: lastCompleteMonth?.total_users ?? null,
+      lastCompleteMonthDate: lastCompleteMonth?.month_start ?? null,
+      lastCompleteMonthStickiness: lastCompleteMonth?.stickiness ?? null,
+    },
+    insights: {
+      yearOverYear,
+      correlations: {
+        priceUserCorrelation: estimateCorrelation(priceLevels, userLevels).r,
+        description: describeCorrelation(pearson),
+        transform,
+        pearson,
+        spearman: estimateCorrelation(prices, users, "spearman"),
+        lags,
+        strongestLag,
+        eras,
+        rollingWindow: ROLLING_WINDOW[granularity],
+        rolling: rollingCorrelation(prices, users, starts, ROLLING_WINDOW[granularity]),
+      },
+      activityDistribution,
+    },
+  };
+}
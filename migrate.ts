@@ -0,0 +1,72 @@
+import { Database } from "bun:sqlite";
+import { parseArgs } from "util";
+import { DEFAULT_DB_PATH, LATEST_VERSION, MIGRATIONS, appliedMigrations, migrateDown, migrateUp } from "./migrations";
+
+// Inspect or change the schema version of hive-stats.db:
+//   bun run migrate status
+//   bun run migrate up [--to N]      apply pending migrations (up to N)
+//   bun run migrate down [--to N]    revert to version N (default: undo the latest)
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = parseInt(value);
+  if (isNaN(version) || version < 0 || version > LATEST_VERSION) {
+    throw new Error(`Invalid --to value "${value}" (expected 0-${LATEST_VERSION})`);
+  }
+  return version;
+}
+
+function printStatus(db: Database) {
+  const applied = new Map(appliedMigrations(db).map((m) => [m.version, m]));
+  for (const migration of MIGRATIONS) {
+    const row = applied.get(migration.version);
+    console.log(`${row ? `applied ${row.applied_at}` : "pending            "}  ${migration.version} ${migration.name}`);
+  }
+  for (const row of applied.values()) {
+    if (row.version > LATEST_VERSION) {
+      console.log(`unknown ${row.applied_at}  ${row.version} ${row.name} (applied by a newer version of this code)`);
+    }
+  }
+  const current = Math.max(0, ...[...applied.keys()].filter((v) => v <= LATEST_VERSION));
+  console.log(`\nSchema version ${current} of ${LATEST_VERSION}`);
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      to: { type: "string" },
+      db: { type: "string", default: DEFAULT_DB_PATH },
+    },
+    allowPositionals: true,
+  });
+  const command = positionals[0] ?? "status";
+  const target = parseVersion(values.to);
+
+  // Opened directly: openDatabase() would migrate before status or down runs
+  const db = new Database(values.db ?? DEFAULT_DB_PATH, { create: true });
+  try {
+    switch (command) {
+      case "status":
+        printStatus(db);
+        break;
+      case "up": {
+        const applied = migrateUp(db, target);
+        console.log(applied.length > 0 ? `\nApplied ${applied.length} migration(s)` : "Schema is up to date");
+        break;
+      }
+      case "down": {
+        const current = Math.max(0, ...appliedMigrations(db).map((m) => m.version));
+        const reverted = migrateDown(db, target ?? current - 1);
+        console.log(reverted.length > 0 ? `\nReverted ${reverted.length} migration(s)` : "Nothing to revert");
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}" (expected status, up or down)`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { rmSync } from "fs";
+import { join } from "path";
+import { openDatabase } from "./migrations";
+import { makeTempDir } from "./test-helpers";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = makeTempDir();
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("weeks of the DATEPART layout are served until the fetcher rebuilds them", () => {
+  const path = join(dir, "legacy.db");
+  // weekly_stats as written before schema migrations and ISO weeks
+  const legacy = new Database(path, { create: true });
+  legacy.exec(`
+    CREATE TABLE weekly_stats (
+      year INTEGER NOT NULL,
+      week INTEGER NOT NULL,
+      week_start TEXT NOT NULL,
+      total_users INTEGER NOT NULL,
+      total_posts INTEGER NOT NULL,
+      total_comments INTEGER NOT NULL,
+      ultra_active_users INTEGER NOT NULL,
+      very_active_users INTEGER NOT NULL,
+      active_users INTEGER NOT NULL,
+      occasional_users INTEGER NOT NULL,
+      low_activity_users INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (year, week)
+    );
+    CREATE INDEX idx_week_start ON weekly_stats(week_start);
+    INSERT INTO weekly_stats VALUES (2024, 1, '2024-01-01', 10, 4, 20, 0, 1, 2, 3, 4, '2024-01-08 00:00:00');
+    INSERT INTO weekly_stats VALUES (2024, 2, '2024-01-08', 12, 5, 25, 1, 1, 2, 3, 5, '2024-01-15 00:00:00');
+  `);
+  legacy.close();
+  
+  const db = openDatabase(path);
+  try {
+    expect(db.prepare(`
+      SELECT week_start, year, week, total_users, total_posts, total_comments FROM weekly_stats ORDER BY week_start
+    `).values()).toEqual([
+      ["2024-01-01", 2024, 1, 10, 4, 20],
+      ["2024-01-08", 2024, 2, 12, 5, 25],
+    ]);
+    expect(db.prepare(`
+      SELECT tier, users FROM tier_stats
+      WHERE granularity = 'week' AND period_start = '2024-01-08' AND segment = 'all' ORDER BY tier
+    `).values()).toEqual([["active", 2], ["low", 5], ["occasional", 3], ["ultra", 1], ["very", 1]]);
+    // Kept for the fetcher, which rebuilds the weeks from the first of them
+    expect(db.prepare(`SELECT MIN(week_start) FROM weekly_stats_legacy`).values()).toEqual([["2024-01-01"]]);
+  } finally {
+    db.close();
+  }
+});
@@ -0,0 +1,465 @@
+// Versioned schema of hive-stats.db, shared by the fetchers, the server and
+// the exporter. Every script opens the database through openDatabase(), which
+// applies pending migrations (or, read-only, refuses an outdated schema).
+//
+// Migrations are append-only: to change the schema add a new entry with the
+// next version instead of editing an applied one. Databases created before
+// migrations existed already hold some of these tables, so the early
+// migrations use IF NOT EXISTS and upgrade any older layouts they find.
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+
+export const DEFAULT_DB_PATH = "hive-stats.db";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): void;
+  down(db: Database): void;
+}
+
+// Tier counts used to be fixed columns on each period table. They are moved
+// into tier_stats under the keys of the tiers they were computed with.
+const LEGACY_TIER_COLUMNS: Record<string, string> = {
+  ultra: "ultra_active_users",
+  very: "very_active_users",
+  active: "active_users",
+  occasional: "occasional_users",
+  low: "low_activity_users",
+};
+
+const LEGACY_TIER_TABLES: Record<string, { table: string; key: string }> = {
+  day: { table: "daily_stats", key: "date" },
+  week: { table: "weekly_stats", key: "week_start" },
+  month: { table: "monthly_stats", key: "month_start" },
+};
+
+function columnNames(db: Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+}
+
+function createPeriodStats(db: Database) {
+  // Before ISO weeks, weekly_stats was keyed by DATEPART(YEAR)/DATEPART(WEEK)
+  // buckets. Those can't be re-bucketed locally, so the old table is set
+  // aside and the fetcher refetches its range.
+  const columns = db.prepare(`PRAGMA table_info(weekly_stats)`).all() as Array<{ name: string; pk: number }>;
+  const weekStartColumn = columns.find((c) => c.name === "week_start");
+  const legacyWeeks = weekStartColumn !== undefined && weekStartColumn.pk === 0;
+  if (legacyWeeks) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_week_start;
+      ALTER TABLE weekly_stats RENAME TO weekly_stats_legacy;
+    `);
+  }
+  
+  // tier_stats was first created without segments; its counts cover all users
+  const tierColumns = columnNames(db, "tier_stats");
+  const unsegmented = tierColumns.length > 0 && !tierColumns.includes("segment");
+  if (unsegmented) {
+    db.exec(`ALTER TABLE tier_stats RENAME TO tier_stats_unsegmented`);
+  }
+  
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS weekly_stats (
+      week_start TEXT PRIMARY KEY,
+      year INTEGER NOT NULL,
+      week INTEGER NOT NULL,
+      total_users INTEGER NOT NULL,
+      total_posts INTEGER NOT NULL,
+      total_comments INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (year, week)
+    );
+    
+    CREATE TABLE IF NOT EXISTS daily_stats (
+      date TEXT PRIMARY KEY,
+      total_users INTEGER NOT NULL,
+      total_posts INTEGER NOT NULL,
+      total_comments INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    
+    CREATE TABLE IF NOT EXISTS monthly_stats (
+      month_start TEXT PRIMARY KEY,
+      year INTEGER NOT NULL,
+      month INTEGER NOT NULL,
+      total_users INTEGER NOT NULL,
+      total_posts INTEGER NOT NULL,
+      total_comments INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (year, month)
+    );
+    
+    CREATE TABLE IF NOT EXISTS tier_stats (
+      granularity TEXT NOT NULL,
+      period_start TEXT NOT NULL,
+      segment TEXT NOT NULL,
+      tier TEXT NOT NULL,
+      users INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (granularity, period_start, segment, tier)
+    );
+  `);
+  
+  // The server and the exporter open the database before the fetcher has
+  // rebuilt the weeks, so the old weeks are copied over and served until
+  // then. The rebuild overwrites them and finishRebuild() deletes the rest.
+  if (legacyWeeks) {
+    db.exec(`
+      INSERT OR IGNORE INTO weekly_stats (week_start, year, week, total_users, total_posts, total_comments, fetched_at)
+      SELECT week_start, year, week, total_users, total_posts, total_comments, fetched_at FROM weekly_stats_legacy
+    `);
+  }
+  
+  if (unsegmented) {
+    db.exec(`
+      INSERT INTO tier_stats (granularity, period_start, segment, tier, users, fetched_at)
+      SELECT granularity, period_start, 'all', tier, users, fetched_at FROM tier_stats_unsegmented;
+      DROP TABLE tier_stats_unsegmented;
+    `);
+    console.log("Added segments to tier_stats (run with --full to fill in creator and commenter tiers)");
+  }
+  
+  for (const [granularity, { table: current, key }] of Object.entries(LEGACY_TIER_TABLES)) {
+    // The old weeks keep their tier columns on the set-aside table
+    const table = granularity === "week" && legacyWeeks ? "weekly_stats_legacy" : current;
+    if (!columnNames(db, table).includes(LEGACY_TIER_COLUMNS.ultra ?? "")) continue;
+    for (const [tier, column] of Object.entries(LEGACY_TIER_COLUMNS)) {
+      db.prepare(`
+        INSERT OR IGNORE INTO tier_stats (granularity, period_start, segment, tier, users, fetched_at)
+        SELECT $granularity, ${key}, 'all', $tier, ${column}, fetched_at FROM ${table}
+      `).run({ $granularity: granularity, $tier: tier });
+      db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+    console.log(`Moved tier columns of ${table} into tier_stats`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_price_history",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS price_history (
+        date TEXT PRIMARY KEY,
+        coin TEXT NOT NULL,
+        price_usd REAL NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_price_coin ON price_history(coin);
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS price_history`),
+  },
+  {
+    version: 2,
+    name: "create_period_stats",
+    up: createPeriodStats,
+    down: (db) => db.exec(`
+      DROP TABLE IF EXISTS tier_stats;
+      DROP TABLE IF EXISTS monthly_stats;
+      DROP TABLE IF EXISTS daily_stats;
+      DROP TABLE IF EXISTS weekly_stats;
+      DROP TABLE IF EXISTS weekly_stats_legacy;
+    `),
+  },
+  {
+    version: 3,
+    name: "create_weekly_growth",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS weekly_growth (
+        week_start TEXT PRIMARY KEY,
+        year INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        new_users INTEGER NOT NULL,
+        retained_users INTEGER NOT NULL,
+        resurrected_users INTEGER NOT NULL,
+        churned_users INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS weekly_growth`),
+  },
+  {
+    version: 4,
+    name: "create_cohort_retention",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS cohort_retention (
+        cohort_month TEXT NOT NULL,
+        active_month TEXT NOT NULL,
+        months_since INTEGER NOT NULL,
+        active_users INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (cohort_month, active_month)
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS cohort_retention`),
+  },
+  {
+    version: 5,
+    name: "create_weekly_votes",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS weekly_votes (
+        week_start TEXT PRIMARY KEY,
+        year INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        unique_voters INTEGER NOT NULL,
+        total_votes INTEGER NOT NULL,
+        social_active_users INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS weekly_votes`),
+  },
+  {
+    version: 6,
+    name: "create_weekly_leaderboards",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS weekly_leaderboards (
+        week_start TEXT NOT NULL,
+        board TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        posts INTEGER NOT NULL,
+        comments INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (week_start, board, rank)
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS weekly_leaderboards`),
+  },
+  {
+    version: 7,
+    name: "create_community_weekly_stats",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS community_weekly_stats (
+        community TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        year INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        total_users INTEGER NOT NULL,
+        total_posts INTEGER NOT NULL,
+        total_comments INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (community, week_start)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_community_weekly_stats_week ON community_weekly_stats (week_start);
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS community_weekly_stats`),
+  },
+  {
+    version: 8,
+    name: "create_weekly_app_stats",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS weekly_app_stats (
+        week_start TEXT NOT NULL,
+        app TEXT NOT NULL,
+        year INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        total_users INTEGER NOT NULL,
+        total_posts INTEGER NOT NULL,
+        total_comments INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (week_start, app)
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS weekly_app_stats`),
+  },
+  {
+    version: 9,
+    name: "create_fetch_runs",
+    // One row per chunk (window) of a fetch run, in fetch order. Chunks that
+    // are not done when a run stops are picked up again by --resume.
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS fetch_runs (
+        run_id INTEGER NOT NULL,
+        chunk INTEGER NOT NULL,
+        granularity TEXT NOT NULL,
+        window_from TEXT NOT NULL,
+        window_to TEXT NOT NULL,
+        label TEXT NOT NULL,
+        rebuild INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        row_counts TEXT,
+        duration_ms INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        finished_at TEXT,
+        PRIMARY KEY (run_id, chunk)
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS fetch_runs`),
+  },
+  {
+    version: 10,
+    name: "key_price_history_by_coin_and_date",
+    // price_history was keyed by date alone, so a second coin's price for the
+    // same day replaced the first. price_usd stays the daily close; the other
+    // OHLC and volume columns are empty for rows saved before this migration.
+    up: (db) => db.exec(`
+      CREATE TABLE price_history_by_coin (
+        coin TEXT NOT NULL,
+        date TEXT NOT NULL,
+        open_usd REAL,
+        high_usd REAL,
+        low_usd REAL,
+        price_usd REAL NOT NULL,
+        volume REAL,
+        volume_usd REAL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (coin, date)
+      );
+      
+      INSERT INTO price_history_by_coin (coin, date, price_usd, fetched_at)
+      SELECT coin, date, price_usd, fetched_at FROM price_history;
+      
+      DROP TABLE price_history;
+      ALTER TABLE price_history_by_coin RENAME TO price_history;
+    `),
+    // Back to one row per date; where coins overlap the HIVE price is kept,
+    // as the old fetcher saved HIVE last
+    down: (db) => db.exec(`
+      CREATE TABLE price_history_by_date (
+        date TEXT PRIMARY KEY,
+        coin TEXT NOT NULL,
+        price_usd REAL NOT NULL,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      
+      INSERT OR IGNORE INTO price_history_by_date (date, coin, price_usd, fetched_at)
+      SELECT date, coin, price_usd, fetched_at FROM price_history
+      ORDER BY CASE coin WHEN 'hive' THEN 0 ELSE 1 END;
+      
+      DROP TABLE price_history;
+      ALTER TABLE price_history_by_date RENAME TO price_history;
+      CREATE INDEX idx_price_coin ON price_history(coin);
+    `),
+  },
+  {
+    version: 11,
+    name: "add_price_history_source",
+    // Provider each price came from; everything before came from CryptoCompare
+    up: (db) => db.exec(`
+      ALTER TABLE price_history ADD COLUMN source TEXT;
+      UPDATE price_history SET source = 'cryptocompare';
+    `),
+    down: (db) => db.exec(`ALTER TABLE price_history DROP COLUMN source`),
+  },
+  {
+    version: 12,
+    name: "create_price_checked_ranges",
+    // Days a provider has already been asked for, so days it has no price
+    // for (before listing, or without trades) aren't requested on every run
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS price_checked_ranges (
+        coin TEXT NOT NULL,
+        date_from TEXT NOT NULL,
+        date_to TEXT NOT NULL,
+        source TEXT NOT NULL,
+        checked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (coin, date_from, date_to)
+      );
+    `),
+    down: (db) => db.exec(`DROP TABLE IF EXISTS price_checked_ranges`),
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS.at(-1)?.version ?? 0;
+
+MIGRATIONS.forEach((migration, i) => {
+  if (migration.version !== i + 1) {
+    throw new Error(`Migration "${migration.name}" has version ${migration.version}, expected ${i + 1}`);
+  }
+});
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+function hasMigrationsTable(db: Database): boolean {
+  return Boolean(db.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+  `).get());
+}
+
+export function appliedMigrations(db: Database): AppliedMigration[] {
+  if (!hasMigrationsTable(db)) return [];
+  return db.prepare(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`)
+    .all() as AppliedMigration[];
+}
+
+export function pendingMigrations(db: Database): Migration[] {
+  const applied = new Set(appliedMigrations(db).map((m) => m.version));
+  return MIGRATIONS.filter((m) => !applied.has(m.version));
+}
+
+// Apply pending migrations up to `target` (all by default), each in its own
+// transaction. Returns the migrations that were applied.
+export function migrateUp(db: Database, target = LATEST_VERSION): Migration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+  const record = db.prepare(`INSERT INTO schema_migrations (version, name) VALUES ($version, $name)`);
+  
+  const applied = pendingMigrations(db).filter((m) => m.version <= target);
+  for (const migration of applied) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run({ $version: migration.version, $name: migration.name });
+    })();
+    console.log(`Applied migration ${migration.version} ${migration.name}`);
+  }
+  return applied;
+}
+
+// Revert applied migrations above `target`, newest first. Returns the
+// migrations that were reverted.
+export function migrateDown(db: Database, target: number): Migration[] {
+  if (!hasMigrationsTable(db)) return [];
+  const applied = new Set(appliedMigrations(db).map((m) => m.version));
+  const forget = db.prepare(`DELETE FROM schema_migrations WHERE version = $version`);
+  
+  const reverted = MIGRATIONS.filter((m) => m.version > target && applied.has(m.version)).reverse();
+  for (const migration of reverted) {
+    db.transaction(() => {
+      migration.down(db);
+      forget.run({ $version: migration.version });
+    })();
+    console.log(`Reverted migration ${migration.version} ${migration.name}`);
+  }
+  return reverted;
+}
+
+// Open the stats database. Read-write connections bring the schema up to
+// date; read-only ones can't, so they fail if any migration is pending.
+export function openDatabase(path = DEFAULT_DB_PATH, options: { readonly?: boolean } = {}): Database {
+  if (!options.readonly) {
+    const db = new Database(path, { create: true });
+    migrateUp(db);
+    return db;
+  }
+  
+  if (!existsSync(path)) {
+    throw new Error(`Database ${path} not found. Run \`bun run fetch-stats\` to create it.`);
+  }
+  const db = new Database(path, { readonly: true });
+  const pending = pendingMigrations(db);
+  if (pending.length > 0) {
+    db.close();
+    throw new Error(
+      `Database ${path} schema is behind: ${pending.length} migration(s) pending ` +
+      `(${pending.map((m) => `${m.version} ${m.name}`).join(", ")}). ` +
+      `Run \`bun run migrate up\` or open it read-write once.`,
+    );
+  }
+  return db;
+}
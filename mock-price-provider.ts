@@ -0,0 +1,40 @@
+import type { DailyPrice, PriceProvider } from "./price-provider";
+
+// Prices served from a local JSON file or an HTTP URL, for working on the
+// price pipeline offline or against a stub server. The document maps coin
+// keys to daily rows; only `date` and `close` are required:
+//   {"hive": [{"date": "2024-01-01", "close": 0.31, "volumeUsd": 1200000}]}
+
+type MockPrices = Record<string, Array<Partial<DailyPrice> & { date: string; close: number }>>;
+
+export async function loadMockProvider(source: string): Promise<PriceProvider> {
+  const data = /^https?:\/\//.test(source)
+    ? await fetch(source).then((res) => {
+      if (!res.ok) throw new Error(`Mock price source ${source} returned ${res.status}`);
+      return res.json() as Promise<MockPrices>;
+    })
+    : await Bun.file(source).json() as MockPrices;
+  
+  return {
+    name: "mock",
+    
+    async fetchDailyHistory(coin, from, to) {
+      const rows = data[coin.coin];
+      if (!rows) {
+        throw new Error(`Mock price source ${source} has no "${coin.coin}" prices`);
+      }
+      return rows
+        .filter((row) => row.date >= from && row.date <= to && row.close > 0)
+        .map((row) => ({
+          date: row.date,
+          open: row.open ?? null,
+          high: row.high ?? null,
+          low: row.low ?? null,
+          close: row.close,
+          volume: row.volume ?? null,
+          volumeUsd: row.volumeUsd ?? null,
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { expect, test } from "bun:test";
+import { firstWeekStart, formatDay, parseDay, startOfWeek, weekNumber } from "./periods";
+
+test("weeks start on Monday by default", () => {
+  // Thursday, Sunday and Monday
+  expect(formatDay(startOfWeek(parseDay("2023-12-28")))).toBe("2023-12-25");
+  expect(formatDay(startOfWeek(parseDay("2024-01-07")))).toBe("2024-01-01");
+  expect(formatDay(startOfWeek(parseDay("2024-01-08")))).toBe("2024-01-08");
+});
+
+test("a week belongs to the year its Thursday falls in", () => {
+  expect(weekNumber(parseDay("2023-12-25"))).toEqual({ year: 2023, week: 52 });
+  expect(weekNumber(parseDay("2024-01-01"))).toEqual({ year: 2024, week: 1 });
+  // 2020 has 53 weeks; 2021 starts on January 4th
+  expect(weekNumber(parseDay("2020-12-28"))).toEqual({ year: 2020, week: 53 });
+  expect(formatDay(firstWeekStart(2021))).toBe("2021-01-04");
+  // Week 1 of 2026 starts in December 2025
+  expect(formatDay(firstWeekStart(2026))).toBe("2025-12-29");
+  expect(weekNumber(parseDay("2025-12-29"))).toEqual({ year: 2026, week: 1 });
+});
+
+test("WEEK_START_DAY moves the start of the week", () => {
+  // The setting is read when the module loads, so check it in a fresh process
+  const result = Bun.spawnSync([process.execPath, "-e", `
+    import { formatDay, parseDay, startOfWeek, weekNumber } from "./periods.ts";
+    console.log(JSON.stringify(["2023-12-28", "2023-12-31", "2024-01-06"].map((value) => {
+      const start = startOfWeek(parseDay(value));
+      return [formatDay(start), weekNumber(start)];
+    })));
+  `], { cwd: import.meta.dir, env: { ...process.env, WEEK_START_DAY: "7" }, stderr: "pipe" });
+  
+  expect(result.stderr.toString()).toBe("");
+  expect(JSON.parse(result.stdout.toString())).toEqual([
+    ["2023-12-24", { year: 2023, week: 52 }],
+    // Sunday 2023-12-31 starts week 1 of 2024, whose Thursday is 2024-01-04
+    ["2023-12-31", { year: 2024, week: 1 }],
+    ["2023-12-31", { year: 2024, week: 1 }],
+  ]);
+});
@@ -0,0 +1,85 @@
+// Calendar helpers shared by the fetcher and the chain data sources. All
+// dates are UTC midnights; periods are days, weeks (see WEEK_START_DAY) and
+// calendar months.
+
+import type { Granularity } from "./tiers";
+
+// Weeks start on WEEK_START_DAY (1 = Monday ... 7 = Sunday). The default is
+// ISO-8601: Monday-start weeks, numbered by the year their Thursday falls in,
+// so no week is ever split across New Year.
+export const WEEK_START_DAY = parseInt(process.env.WEEK_START_DAY ?? "1");
+
+if (isNaN(WEEK_START_DAY) || WEEK_START_DAY < 1 || WEEK_START_DAY > 7) {
+  throw new Error(`Invalid WEEK_START_DAY "${process.env.WEEK_START_DAY}" (expected 1-7, 1 = Monday)`);
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatDay(date: Date): string {
+  return date.toISOString().split("T")[0] ?? "";
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function parseDay(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+// Start of the week containing `date`
+export function startOfWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay() is 0 = Sunday, WEEK_START_DAY is 1 = Monday ... 7 = Sunday
+  const offset = (day.getUTCDay() - (WEEK_START_DAY % 7) + 7) % 7;
+  return addDays(day, -offset);
+}
+
+// First day of week 1 of `year`: the week containing January 4th
+export function firstWeekStart(year: number): Date {
+  return startOfWeek(new Date(Date.UTC(year, 0, 4)));
+}
+
+// Week-numbering year and week number of the week starting on `weekStart`.
+// A week belongs to the year its 4th day falls in (Thursday for ISO weeks).
+export function weekNumber(weekStart: Date): { year: number; week: number } {
+  const year = addDays(weekStart, 3).getUTCFullYear();
+  const week = Math.round((weekStart.getTime() - firstWeekStart(year).getTime()) / (7 * DAY_MS)) + 1;
+  return { year, week };
+}
+
+export function startOfPeriod(granularity: Granularity, date: Date): Date {
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    case "week":
+      return startOfWeek(date);
+    case "month":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+}
+
+export function nextPeriod(granularity: Granularity, periodStart: Date): Date {
+  switch (granularity) {
+    case "day":
+      return addDays(periodStart, 1);
+    case "week":
+      return addDays(periodStart, 7);
+    case "month":
+      return new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1));
+  }
+}
+
+// First period starting on or after the 1st of a calendar month (`month` is
+// 0-based and may overflow into the next year, as with Date.UTC). A week
+// therefore belongs to the month it starts in.
+export function firstPeriodOfMonth(granularity: Granularity, year: number, month: number): Date {
+  return alignToPeriodEnd(granularity, new Date(Date.UTC(year, month, 1)));
+}
+
+// Round an exclusive end date up to the next period boundary so the last
+// period of a range is never saved with partial counts.
+export function alignToPeriodEnd(granularity: Granularity, date: Date): Date {
+  const start = startOfPeriod(granularity, date);
+  return start.getTime() === date.getTime() ? date : nextPeriod(granularity, start);
+}
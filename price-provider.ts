@@ -0,0 +1,65 @@
+// Source of daily coin prices for fetch-hive-price.ts. Implementations:
+// cryptocompare-provider.ts, coingecko-provider.ts and mock-price-provider.ts
+// (a local file or URL, for working offline).
+
+// A coin as each provider knows it
+export interface CoinConfig {
+  coin: string;
+  symbol: string;
+  coingeckoId: string;
+  inception: string;
+  end?: string;
+}
+
+// One day of trading in USD. Volume is in coin units, volumeUsd its USD value.
+// Providers that only report a daily price leave the other fields null.
+export interface DailyPrice {
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: number | null;
+  volumeUsd: number | null;
+}
+
+export interface PriceProvider {
+  // Recorded in price_history.source for every row it supplied
+  name: string;
+  // Daily prices from `from` to `to` (inclusive YYYY-MM-DD dates), sorted by
+  // date. Days without trading are left out.
+  fetchDailyHistory(coin: CoinConfig, from: string, to: string): Promise<DailyPrice[]>;
+}
+
+// Pause between requests, and the backoff when rate limited (doubled after
+// each rate-limited attempt unless the API sends Retry-After)
+export const REQUEST_DELAY_MS = 500;
+const RATE_LIMIT_BASE_DELAY_MS = 2000;
+const MAX_ATTEMPTS = 5;
+
+// GET a JSON document, waiting and retrying while the API rate-limits us.
+// Some APIs report rate limits in the body, which `isRateLimited` detects.
+export async function fetchJson<T>(
+  provider: string,
+  url: string,
+  options: { headers?: Record<string, string>; isRateLimited?: (body: T) => boolean } = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await fetch(url, { headers: options.headers });
+    const body = res.ok ? await res.json() as T : null;
+    
+    const rateLimited = res.status === 429 || (body !== null && (options.isRateLimited?.(body) ?? false));
+    if (rateLimited && attempt < MAX_ATTEMPTS) {
+      const retryAfter = Number(res.headers.get("retry-after"));
+      const delay = retryAfter > 0 ? retryAfter * 1000 : RATE_LIMIT_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`  Rate limited by ${provider}, retrying in ${delay / 1000}s...`);
+      await Bun.sleep(delay);
+      continue;
+    }
+    
+    if (body === null) {
+      throw new Error(`${provider} API error: ${res.status}`);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+import { join } from "path";
+import { DEFAULT_DB_PATH, openDatabase } from "./migrations";
+import { getStats, parseStatsQuery } from "./stats";
+import { fetchSampleChain, makeTempDir, runScript } from "./test-helpers";
+
+// The export runs in its own directory, where it finds hive-stats.db and
+// writes public/
+let dir: string;
+
+beforeAll(() => {
+  dir = makeTempDir();
+  fetchSampleChain(join(dir, DEFAULT_DB_PATH));
+  runScript("export-data.ts", [], { cwd: dir });
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// As served by /api/stats without query parameters
+function serverStats(): unknown {
+  const db = openDatabase(join(dir, DEFAULT_DB_PATH), { readonly: true });
+  try {
+    return JSON.parse(JSON.stringify(getStats(db, parseStatsQuery(new URLSearchParams()))));
+  } finally {
+    db.close();
+  }
+}
+
+test("/api/stats matches the snapshot", () => {
+  expect(serverStats()).toMatchSnapshot();
+});
+
+test("data.json holds the /api/stats payload plus the cohorts", async () => {
+  const { cohorts, generatedAt, ...exported } = await Bun.file(join(dir, "public/data.json")).json();
+  
+  expect(exported).toEqual(serverStats());
+  expect(cohorts).toMatchSnapshot();
+  expect(typeof generatedAt).toBe("string");
+});
+
+describe("parseStatsQuery", () => {
+  function parse(query: string) {
+    return parseStatsQuery(new URLSearchParams(query));
+  }
+  
+  test("reads the range, granularity and fields", () => {
+    expect(parse("")).toEqual({});
+    expect(parse("from=2024-01-01&to=2024-01-14&granularity=day&fields=dailyStats, summary")).toEqual({
+      from: "2024-01-01",
+      to: "2024-01-14",
+      granularity: "day",
+      fields: ["dailyStats", "summary"],
+    });
+  });
+  
+  test("rejects unknown parameters and fields", () => {
+    expect(() => parse("week=1")).toThrow('Unknown parameter "week"');
+    expect(() => parse("fields=weeklyStats,prices")).toThrow('Unknown field "prices"');
+  });
+  
+  test("rejects malformed and empty ranges", () => {
+    expect(() => parse("from=2024-1-1")).toThrow('Invalid from "2024-1-1"');
+    expect(() => parse("to=yesterday")).toThrow('Invalid to "yesterday"');
+    expect(() => parse("from=2024-02-30")).toThrow('Invalid from "2024-02-30"');
+    expect(() => parse("to=2023-13-01")).toThrow('Invalid to "2023-13-01"');
+    expect(parse("from=2024-02-29")).toEqual({ from: "2024-02-29" });
+    expect(() => parse("from=2024-01-14&to=2024-01-01")).toThrow("Empty range");
+  });
+  
+  test("rejects unknown granularities and series of another granularity", () => {
+    expect(() => parse("granularity=year")).toThrow('Invalid granularity "year"');
+    // Names every object inherits are not granularities either
+    for (const name of ["toString", "constructor", "__proto__"]) {
+      expect(() => parse(`granularity=${name}`)).toThrow(`Invalid granularity "${name}"`);
+    }
+    expect(() => parse("granularity=month&fields=weeklyStats")).toThrow('Field "weeklyStats" is not available with granularity=month');
+  });
+});
@@ -0,0 +1,540 @@
+// Stats queries behind the dashboard, shared by the live API (server.ts) and
+// the static exporter (export-data.ts) so both serve the same data. Every
+// function reads from a database opened with openDatabase().
+
+import type { Database } from "bun:sqlite";
+import { TIERS, emptySegmentTierCounts, type Granularity, type Segment } from "./tiers";
+import { eraCoinSql } from "./eras";
+import type { LeaderboardName } from "./chain-data-source";
+import { summarizeStats, type DateWindow, type StatsInsights, type StatsSummary } from "./insights";
+
+export interface WeeklyStatsRow {
+  year: number;
+  week: number;
+  week_start: string;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  tiers: Record<Segment, Record<string, number>>;  // users per segment and tier key, see tiers.ts
+  avg_price: number | null;
+  price_days: number;  // days with a price, which avg_price averages
+  internal_price: number | null;  // internal market VWAP in HBD per HIVE
+}
+
+export interface DailyStatsRow {
+  date: string;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  tiers: Record<Segment, Record<string, number>>;  // users per segment and tier key, see tiers.ts
+  avg_price: number | null;
+  internal_price: number | null;  // internal market VWAP in HBD per HIVE
+}
+
+export interface MonthlyStatsRow {
+  month_start: string;
+  year: number;
+  month: number;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+  tiers: Record<Segment, Record<string, number>>;  // users per segment and tier key, see tiers.ts
+  avg_price: number | null;
+  internal_price: number | null;  // internal market VWAP in HBD per HIVE
+  avg_daily_users: number | null;
+  stickiness: number | null;  // average DAU / MAU
+}
+
+export interface WeeklyGrowthRow {
+  week_start: string;
+  year: number;
+  week: number;
+  new_users: number;
+  retained_users: number;
+  resurrected_users: number;
+  churned_users: number;
+}
+
+export interface WeeklyVotesRow {
+  week_start: string;
+  year: number;
+  week: number;
+  unique_voters: number;
+  total_votes: number;
+  social_active_users: number;  // voted, posted or commented
+}
+
+// Weekly activity within one community (hive-NNNNNN category)
+export interface CommunityWeeklyRow {
+  week_start: string;
+  year: number;
+  week: number;
+  total_users: number;
+  total_posts: number;
+  total_comments: number;
+}
+
+export interface CommunitySummary {
+  id: string;
+  userWeeks: number;
+  totalPosts: number;
+  totalComments: number;
+  lastWeek: string;
+}
+
+// Communities offered in the dashboard's selector, most active first
+export const COMMUNITY_LIST_SIZE = 100;
+
+// Weekly users and content (posts + comments) per posting app. The most
+// active apps overall are kept by name, everything else is summed as "other".
+export interface AppActivity {
+  apps: string[];
+  weeks: Array<{
+    week_start: string;
+    year: number;
+    week: number;
+    users: Record<string, number>;
+    content: Record<string, number>;
+  }>;
+}
+
+const APP_TOP_N = 8;
+
+// Weekly top lists (see LeaderboardName) with each entry's combined total
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  posts: number;
+  comments: number;
+  total: number;
+}
+
+export type Leaderboards = { week: string | null } & Record<LeaderboardName, LeaderboardEntry[]>;
+
+// Retention of one first-activity month cohort: retention[n] is the
+// percentage of the cohort active n months after its first month
+export interface CohortRow {
+  cohortMonth: string;
+  size: number;
+  retention: number[];
+}
+
+// One stored daily price: the exchange close (and OHLC/volume where the
+// provider has them) or, for the *_internal coins, the internal market VWAP
+export interface PriceHistoryRow {
+  date: string;
+  coin: string;
+  source: string | null;
+  open_usd: number | null;
+  high_usd: number | null;
+  low_usd: number | null;
+  price_usd: number;
+  volume: number | null;
+  volume_usd: number | null;
+}
+
+export interface StatsResponse {
+  weeklyStats: WeeklyStatsRow[];
+  dailyStats: DailyStatsRow[];
+  monthlyStats: MonthlyStatsRow[];
+  weeklyGrowth: WeeklyGrowthRow[];
+  weeklyVotes: WeeklyVotesRow[];
+  appActivity: AppActivity;
+  summary: StatsSummary;
+  insights: StatsInsights;
+}
+
+export type StatsField = keyof StatsResponse;
+
+export const STATS_FIELDS: StatsField[] = [
+  "weeklyStats", "dailyStats", "monthlyStats", "weeklyGrowth", "weeklyVotes", "appActivity", "summary", "insights",
+];
+
+// The period series of each granularity
+const SERIES_FIELDS: Record<Granularity, StatsField> = {
+  day: "dailyStats",
+  week: "weeklyStats",
+  month: "monthlyStats",
+};
+
+// Options of /api/stats. Periods (and the years of the year-over-year table)
+// are included when they start within [from, to]. A granularity limits the
+// period series to that one and bases the correlation and tier distribution
+// on its periods; `fields` limits the response to those top-level keys.
+export interface StatsQuery extends DateWindow {
+  granularity?: Granularity;
+  fields?: StatsField[];
+}
+
+const QUERY_PARAMS = ["from", "to", "granularity", "fields"];
+
+// Dates like 2024-02-30 parse but roll over into the next month, so the
+// parsed day must format back to the same string
+function isDay(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const day = new Date(`${value}T00:00:00Z`);
+  return !isNaN(day.getTime()) && day.toISOString().slice(0, 10) === value;
+}
+
+// Validates /api/stats query parameters, throwing an Error whose message is
+// meant for the client
+export function parseStatsQuery(params: URLSearchParams): StatsQuery {
+  for (const name of params.keys()) {
+    if (!QUERY_PARAMS.includes(name)) {
+      throw new Error(`Unknown parameter "${name}" (expected ${QUERY_PARAMS.join(", ")})`);
+    }
+  }
+  
+  const query: StatsQuery = {};
+  for (const bound of ["from", "to"] as const) {
+    const value = params.get(bound);
+    if (value === null) continue;
+    if (!isDay(value)) {
+      throw new Error(`Invalid ${bound} "${value}" (expected YYYY-MM-DD)`);
+    }
+    query[bound] = value;
+  }
+  if (query.from && query.to && query.from > query.to) {
+    throw new Error(`Empty range: from ${query.from} is after to ${query.to}`);
+  }
+  
+  const granularity = params.get("granularity");
+  if (granularity !== null) {
+    if (!Object.hasOwn(SERIES_FIELDS, granularity)) {
+      throw new Error(`Invalid granularity "${granularity}" (expected day, week or month)`);
+    }
+    query.granularity = granularity as Granularity;
+  }
+  
+  const fields = params.get("fields");
+  if (fields !== null) {
+    query.fields = fields.split(",").map((field) => field.trim()) as StatsField[];
+    for (const field of query.fields) {
+      if (!STATS_FIELDS.includes(field)) {
+        throw new Error(`Unknown field "${field}" (expected ${STATS_FIELDS.join(", ")})`);
+      }
+      const series = Object.entries(SERIES_FIELDS).find(([, name]) => name === field);
+      if (series && query.granularity && series[0] !== query.granularity) {
+        throw new Error(`Field "${field}" is not available with granularity=${query.granularity}`);
+      }
+    }
+  }
+  
+  return query;
+}
+
+// Whether a query asks for a key: not another granularity's series, and
+// listed in `fields` if given
+function selectsField(query: StatsQuery, field: StatsField): boolean {
+  const series = Object.entries(SERIES_FIELDS).find(([, name]) => name === field);
+  if (series && query.granularity && series[0] !== query.granularity) return false;
+  return !query.fields || query.fields.includes(field);
+}
+
+// SQL condition keeping the periods whose `column` start lies within a
+// DateWindow bound as $from and $to (see windowParams)
+function windowSql(column: string): string {
+  return `($from IS NULL OR ${column} >= $from) AND ($to IS NULL OR ${column} <= $to)`;
+}
+
+function windowParams(window: DateWindow): { $from: string | null; $to: string | null } {
+  return { $from: window.from ?? null, $to: window.to ?? null };
+}
+
+// Users per segment and tier for the stored periods of a granularity within
+// the window, keyed by period start. Tiers that are no longer configured are
+// ignored.
+function getTierCounts(db: Database, granularity: Granularity, window: DateWindow): Map<string, Record<Segment, Record<string, number>>> {
+  const rows = db.prepare(`
+    SELECT period_start, segment, tier, users FROM tier_stats
+    WHERE granularity = $granularity AND ${windowSql("period_start")}
+  `).all({ $granularity: granularity, ...windowParams(window) }) as Array<{ period_start: string; segment: Segment; tier: string; users: number }>;
+  
+  const counts = new Map<string, Record<Segment, Record<string, number>>>();
+  for (const row of rows) {
+    if (!TIERS.some((tier) => tier.key === row.tier)) continue;
+    let periodCounts = counts.get(row.period_start);
+    if (!periodCounts) {
+      periodCounts = emptySegmentTierCounts();
+      counts.set(row.period_start, periodCounts);
+    }
+    const segmentCounts = periodCounts[row.segment];
+    if (segmentCounts) segmentCounts[row.tier] = row.users;
+  }
+  return counts;
+}
+
+// Weekly stats with the week's average price joined. The period queries below
+// return every stored period, or those starting within a window.
+export function getWeeklyStats(db: Database, window: DateWindow = {}): WeeklyStatsRow[] {
+  const tiers = getTierCounts(db, "week", window);
+  const rows = db.prepare(`
+    SELECT 
+      ws.year, ws.week, ws.week_start, ws.total_users, ws.total_posts, ws.total_comments,
+      AVG(ph.price_usd) as avg_price,
+      COUNT(ph.price_usd) as price_days,
+      (
+        SELECT SUM(pi.volume_usd) / SUM(pi.volume) FROM price_history pi
+        WHERE pi.date >= ws.week_start
+          AND pi.date < date(ws.week_start, '+7 days')
+          AND pi.coin = ${eraCoinSql("pi.date", "internalCoin")}
+      ) as internal_price
+    FROM weekly_stats ws
+    LEFT JOIN price_history ph ON 
+      ph.date >= ws.week_start 
+      AND ph.date < date(ws.week_start, '+7 days')
+      AND ph.coin = ${eraCoinSql("ph.date")}
+    WHERE ${windowSql("ws.week_start")}
+    GROUP BY ws.week_start
+    ORDER BY ws.week_start
+  `).all(windowParams(window)) as Omit<WeeklyStatsRow, "tiers">[];
+  
+  return rows.map((row) => ({ ...row, tiers: tiers.get(row.week_start) ?? emptySegmentTierCounts() }));
+}
+
+export function getDailyStats(db: Database, window: DateWindow = {}): DailyStatsRow[] {
+  const tiers = getTierCounts(db, "day", window);
+  const rows = db.prepare(`
+    SELECT 
+      ds.date, ds.total_users, ds.total_posts, ds.total_comments,
+      ph.price_usd as avg_price,
+      pi.price_usd as internal_price
+    FROM daily_stats ds
+    LEFT JOIN price_history ph ON 
+      ph.date = ds.date
+      AND ph.coin = ${eraCoinSql("ph.date")}
+    LEFT JOIN price_history pi ON
+      pi.date = ds.date
+      AND pi.coin = ${eraCoinSql("pi.date", "internalCoin")}
+    WHERE ${windowSql("ds.date")}
+    ORDER BY ds.date
+  `).all(windowParams(window)) as Omit<DailyStatsRow, "tiers">[];
+  
+  return rows.map((row) => ({ ...row, tiers: tiers.get(row.date) ?? emptySegmentTierCounts() }));
+}
+
+// Monthly stats with the month's average price and average DAU, from which
+// the DAU/MAU stickiness ratio is derived
+export function getMonthlyStats(db: Database, window: DateWindow = {}): MonthlyStatsRow[] {
+  const tiers = getTierCounts(db, "month", window);
+  const rows = db.prepare(`
+    SELECT 
+      ms.month_start, ms.year, ms.month, ms.total_users, ms.total_posts, ms.total_comments,
+      (
+        SELECT AVG(ph.price_usd) FROM price_history ph
+        WHERE ph.date >= ms.month_start
+          AND ph.date < date(ms.month_start, '+1 month')
+          AND ph.coin = ${eraCoinSql("ph.date")}
+      ) as avg_price,
+      (
+        SELECT SUM(pi.volume_usd) / SUM(pi.volume) FROM price_history pi
+        WHERE pi.date >= ms.month_start
+          AND pi.date < date(ms.month_start, '+1 month')
+          AND pi.coin = ${eraCoinSql("pi.date", "internalCoin")}
+      ) as internal_price,
+      (
+        SELECT AVG(ds.total_users) FROM daily_stats ds
+        WHERE ds.date >= ms.month_start
+          AND ds.date < date(ms.month_start, '+1 month')
+      ) as avg_daily_users
+    FROM monthly_stats ms
+    WHERE ${windowSql("ms.month_start")}
+    ORDER BY ms.month_start
+  `).all(windowParams(window)) as Omit<MonthlyStatsRow, "stickiness" | "tiers">[];
+  
+  return rows.map((row) => ({
+    ...row,
+    tiers: tiers.get(row.month_start) ?? emptySegmentTierCounts(),
+    avg_daily_users: row.avg_daily_users !== null ? Math.round(row.avg_daily_users) : null,
+    stickiness: row.avg_daily_users !== null && row.total_users > 0
+      ? Number((row.avg_daily_users / row.total_users).toFixed(3))
+      : null,
+  }));
+}
+
+// New / retained / resurrected / churned authors per week
+export function getWeeklyGrowth(db: Database, window: DateWindow = {}): WeeklyGrowthRow[] {
+  return db.prepare(`
+    SELECT 
+      week_start, year, week,
+      new_users, retained_users, resurrected_users, churned_users
+    FROM weekly_growth
+    WHERE ${windowSql("week_start")}
+    ORDER BY week_start
+  `).all(windowParams(window)) as WeeklyGrowthRow[];
+}
+
+// Weeks within the window, split among the apps with the most user-weeks
+// over all stored weeks
+export function getAppActivity(db: Database, window: DateWindow = {}): AppActivity {
+  const apps = (db.prepare(`
+    SELECT app FROM weekly_app_stats
+    GROUP BY app
+    ORDER BY SUM(total_users) DESC, app
+    LIMIT ?
+  `).all(APP_TOP_N) as Array<{ app: string }>).map((row) => row.app);
+  
+  const rows = db.prepare(`
+    SELECT week_start, year, week, app, total_users, total_posts + total_comments as content
+    FROM weekly_app_stats
+    WHERE ${windowSql("week_start")}
+    ORDER BY week_start
+  `).all(windowParams(window)) as Array<{ week_start: string; year: number; week: number; app: string; total_users: number; content: number }>;
+  
+  const weeks = new Map<string, AppActivity["weeks"][number]>();
+  for (const row of rows) {
+    let week = weeks.get(row.week_start);
+    if (!week) {
+      const empty = () => Object.fromEntries([...apps, "other"].map((app) => [app, 0]));
+      week = { week_start: row.week_start, year: row.year, week: row.week, users: empty(), content: empty() };
+      weeks.set(row.week_start, week);
+    }
+    const key = apps.includes(row.app) ? row.app : "other";
+    week.users[key] = (week.users[key] ?? 0) + row.total_users;
+    week.content[key] = (week.content[key] ?? 0) + row.content;
+  }
+  
+  return { apps, weeks: [...weeks.values()] };
+}
+
+// Communities ranked by user-weeks (all of them if no limit is given)
+export function getCommunities(db: Database, limit = -1): CommunitySummary[] {
+  return db.prepare(`
+    SELECT 
+      community as id,
+      SUM(total_users) as userWeeks,
+      SUM(total_posts) as totalPosts,
+      SUM(total_comments) as totalComments,
+      MAX(week_start) as lastWeek
+    FROM community_weekly_stats
+    GROUP BY community
+    ORDER BY userWeeks DESC, community
+    LIMIT ?
+  `).all(limit) as CommunitySummary[];
+}
+
+export function getCommunityStats(db: Database, id: string): CommunityWeeklyRow[] {
+  return db.prepare(`
+    SELECT 
+      week_start, year, week, total_users, total_posts, total_comments
+    FROM community_weekly_stats
+    WHERE community = ?
+    ORDER BY week_start
+  `).all(id) as CommunityWeeklyRow[];
+}
+
+// Leaderboards of the latest stored week starting on or before `date`
+// (the latest week overall if omitted)
+export function getLeaderboards(db: Database, date?: string): Leaderboards {
+  const { week_start: week } = db.prepare(`
+    SELECT MAX(week_start) as week_start FROM weekly_leaderboards
+    WHERE $date IS NULL OR week_start <= $date
+  `).get({ $date: date ?? null }) as { week_start: string | null };
+  
+  const leaderboards: Leaderboards = { week, posts: [], comments: [], total: [], communities: [] };
+  if (!week) return leaderboards;
+  
+  const rows = db.prepare(`
+    SELECT board, rank, name, posts, comments FROM weekly_leaderboards
+    WHERE week_start = ?
+    ORDER BY board, rank
+  `).all(week) as Array<Omit<LeaderboardEntry, "total"> & { board: LeaderboardName }>;
+  
+  for (const { board, ...entry } of rows) {
+    leaderboards[board]?.push({ ...entry, total: entry.posts + entry.comments });
+  }
+  return leaderboards;
+}
+
+// Unique voters, votes cast and users with any social action per week
+export function getWeeklyVotes(db: Database, window: DateWindow = {}): WeeklyVotesRow[] {
+  return db.prepare(`
+    SELECT 
+      week_start, year, week,
+      unique_voters, total_votes, social_active_users
+    FROM weekly_votes
+    WHERE ${windowSql("week_start")}
+    ORDER BY week_start
+  `).all(windowParams(window)) as WeeklyVotesRow[];
+}
+
+export function getPriceHistory(db: Database): PriceHistoryRow[] {
+  return db.prepare(`
+    SELECT date, coin, source, open_usd, high_usd, low_usd, price_usd, volume, volume_usd
+    FROM price_history
+    ORDER BY date, coin
+  `).all() as PriceHistoryRow[];
+}
+
+export function getCohorts(db: Database): CohortRow[] {
+  const rows = db.prepare(`
+    SELECT cohort_month, months_since, active_users
+    FROM cohort_retention
+    ORDER BY cohort_month, months_since
+  `).all() as Array<{ cohort_month: string; months_since: number; active_users: number }>;
+  
+  const latest = db.prepare(`SELECT MAX(active_month) as latest FROM cohort_retention`)
+    .get() as { latest: string | null };
+  if (!latest.latest) return [];
+  const latestIndex = parseInt(latest.latest.slice(0, 4)) * 12 + parseInt(latest.latest.slice(5, 7));
+  
+  const cohorts = new Map<string, CohortRow>();
+  for (const row of rows) {
+    let cohort = cohorts.get(row.cohort_month);
+    if (!cohort) {
+      // Months with no active cohort members have no row, so start from zeros
+      const cohortIndex = parseInt(row.cohort_month.slice(0, 4)) * 12 + parseInt(row.cohort_month.slice(5, 7));
+      cohort = {
+        cohortMonth: row.cohort_month,
+        size: 0,
+        retention: new Array(latestIndex - cohortIndex + 1).fill(0),
+      };
+      cohorts.set(row.cohort_month, cohort);
+    }
+    if (row.months_since === 0) cohort.size = row.active_users;
+    cohort.retention[row.months_since] = row.active_users;
+  }
+  
+  return [...cohorts.values()]
+    .filter((c) => c.size > 0)
+    .map((c) => ({
+      ...c,
+      retention: c.retention.map((users) => Number(((users / c.size) * 100).toFixed(1))),
+    }));
+}
+
+// The /api/stats payload (and data.json's, which has no query). Only the
+// keys the query selects are computed, and the period series are read for
+// its window alone.
+export function getStats(db: Database, query?: DateWindow & { granularity?: undefined; fields?: undefined }): StatsResponse;
+export function getStats(db: Database, query: StatsQuery): Partial<StatsResponse>;
+export function getStats(db: Database, query: StatsQuery = {}): Partial<StatsResponse> {
+  const window: DateWindow = { from: query.from, to: query.to };
+  const stats: Partial<StatsResponse> = {};
+  if (selectsField(query, "weeklyStats")) stats.weeklyStats = getWeeklyStats(db, window);
+  if (selectsField(query, "dailyStats")) stats.dailyStats = getDailyStats(db, window);
+  if (selectsField(query, "monthlyStats")) stats.monthlyStats = getMonthlyStats(db, window);
+  if (selectsField(query, "weeklyGrowth")) stats.weeklyGrowth = getWeeklyGrowth(db, window);
+  if (selectsField(query, "weeklyVotes")) stats.weeklyVotes = getWeeklyVotes(db, window);
+  if (selectsField(query, "appActivity")) stats.appActivity = getAppActivity(db, window);
+  
+  if (selectsField(query, "summary") || selectsField(query, "insights")) {
+    // The newest stored week and month are in progress even when the window
+    // ends before them, so they are looked up separately
+    const { week, month } = db.prepare(`
+      SELECT
+        (SELECT MAX(week_start) FROM weekly_stats) as week,
+        (SELECT MAX(month_start) FROM monthly_stats) as month
+    `).get() as { week: string | null; month: string | null };
+    const { summary, insights } = summarizeStats({
+      weeklyStats: stats.weeklyStats ?? getWeeklyStats(db, window),
+      dailyStats: query.granularity === "day" ? stats.dailyStats ?? getDailyStats(db, window) : [],
+      monthlyStats: stats.monthlyStats ?? getMonthlyStats(db, window),
+      inProgress: { week, month },
+    }, window, query.granularity);
+    if (selectsField(query, "summary")) stats.summary = summary;
+    if (selectsField(query, "insights")) stats.insights = insights;
+  }
+  
+  return stats;
+}
@@ -0,0 +1,37 @@
+// Shared setup of the bun:test suites: databases built from
+// fixtures/sample-chain.json by the fetch-stats CLI, the same path as
+// `bun run fetch-stats --fixture`.
+
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export const SAMPLE_CHAIN = join(import.meta.dir, "fixtures/sample-chain.json");
+
+// Covers every comment, vote and fill of the sample chain
+const SAMPLE_FROM = "2023-12-01";
+const SAMPLE_TO = "2024-01-31";
+
+export function makeTempDir(): string {
+  return mkdtempSync(join(tmpdir(), "hive-stats-test-"));
+}
+
+// Runs a script of this repo to completion, throwing with its output if it fails
+export function runScript(script: string, args: string[], options: { cwd?: string; env?: Record<string, string> } = {}): string {
+  const result = Bun.spawnSync([process.execPath, join(import.meta.dir, script), ...args], {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const output = result.stdout.toString() + result.stderr.toString();
+  if (!result.success) throw new Error(`${script} exited with ${result.exitCode}:\n${output}`);
+  return output;
+}
+
+// Aggregates the sample chain into the database at dbPath (created and
+// migrated if missing). Settings like WEEK_START_DAY are read when the script
+// starts, so they are passed through `env`.
+export function fetchSampleChain(dbPath: string, env: Record<string, string> = {}): void {
+  runScript("fetch-hive-stats.ts", ["--fixture", SAMPLE_CHAIN, "--db", dbPath, "--from", SAMPLE_FROM, "--to", SAMPLE_TO], { env });
+}
@@ -0,0 +1,16 @@
+import { expect, test } from "bun:test";
+import { TIERS, emptyTierCounts, tierRange, type Granularity } from "./tiers";
+
+function ranges(granularity: Granularity): Record<string, string> {
+  return Object.fromEntries(TIERS.map((tier) => [tier.key, tierRange(tier, granularity)]));
+}
+
+test("tier ranges cover every activity level once, per period length", () => {
+  expect(ranges("week")).toEqual({ ultra: "50+", very: "20-49", active: "10-19", occasional: "3-9", low: "1-2" });
+  expect(ranges("day")).toEqual({ ultra: "10+", very: "5-9", active: "3-4", occasional: "2", low: "1" });
+  expect(ranges("month")).toEqual({ ultra: "200+", very: "80-199", active: "40-79", occasional: "12-39", low: "1-11" });
+});
+
+test("empty tier counts hold every tier key", () => {
+  expect(emptyTierCounts()).toEqual({ ultra: 0, very: 0, active: 0, occasional: 0, low: 0 });
+});
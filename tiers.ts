@@ -0,0 +1,68 @@
+// Activity tier definitions shared by the fetcher, the server, the static
+// exporter and the dashboard.
+//
+// A user's activity is their posts + comments in a period. Tiers are listed
+// from most to least active and each user falls into the first tier whose
+// minimum they reach, so the minimums must strictly decrease and the last
+// tier must start at 1. Minimums are scaled to the period length.
+//
+// Tier counts are stored per tier key in the tier_stats table. After changing
+// keys or minimums, refetch with `bun run fetch-stats --full`.
+
+export type Granularity = "day" | "week" | "month";
+
+// Tiers are computed for all active users and separately for creators (posted
+// at least once in the period) and commenters (only commented). Activity
+// always counts both posts and comments.
+export type Segment = "all" | "creators" | "commenters";
+
+export const SEGMENTS: Segment[] = ["all", "creators", "commenters"];
+
+export interface TierDefinition {
+  key: string;
+  name: string;
+  color: string;
+  minActivity: Record<Granularity, number>;
+}
+
+export const TIERS: TierDefinition[] = [
+  { key: "ultra", name: "Ultra Active", color: "#ff3366", minActivity: { day: 10, week: 50, month: 200 } },
+  { key: "very", name: "Very Active", color: "#ff6b35", minActivity: { day: 5, week: 20, month: 80 } },
+  { key: "active", name: "Active", color: "#ffc107", minActivity: { day: 3, week: 10, month: 40 } },
+  { key: "occasional", name: "Occasional", color: "#4ecdc4", minActivity: { day: 2, week: 3, month: 12 } },
+  { key: "low", name: "Low", color: "#45b7d1", minActivity: { day: 1, week: 1, month: 1 } },
+];
+
+for (const granularity of ["day", "week", "month"] as Granularity[]) {
+  TIERS.forEach((tier, i) => {
+    if (!/^[a-z][a-z0-9_]*$/.test(tier.key) || TIERS.findIndex((t) => t.key === tier.key) !== i) {
+      throw new Error(`Invalid tier key "${tier.key}" (expected unique lowercase identifiers)`);
+    }
+    const previous = TIERS[i - 1];
+    if (previous && tier.minActivity[granularity] >= previous.minActivity[granularity]) {
+      throw new Error(`Tier "${tier.key}" must have a lower ${granularity} minimum than "${previous.key}"`);
+    }
+  });
+  if (TIERS.at(-1)?.minActivity[granularity] !== 1) {
+    throw new Error(`The last tier must have a ${granularity} minimum of 1`);
+  }
+}
+
+// Activity range covered by a tier, e.g. "20-49" or "50+"
+export function tierRange(tier: TierDefinition, granularity: Granularity): string {
+  const min = tier.minActivity[granularity];
+  const above = TIERS[TIERS.indexOf(tier) - 1];
+  if (!above) return `${min}+`;
+  const max = above.minActivity[granularity] - 1;
+  return max === min ? String(min) : `${min}-${max}`;
+}
+
+// Zeroed counts for every configured tier
+export function emptyTierCounts(): Record<string, number> {
+  return Object.fromEntries(TIERS.map((tier) => [tier.key, 0]));
+}
+
+// Zeroed tier counts for every segment
+export function emptySegmentTierCounts(): Record<Segment, Record<string, number>> {
+  return { all: emptyTierCounts(), creators: emptyTierCounts(), commenters: emptyTierCounts() };
+}